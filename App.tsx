@@ -1,6 +1,142 @@
-import React, { useState, useEffect, useCallback } from "react";
-import { Shift, GoogleCalendar } from "./types";
-import { extractShiftsFromImage } from "./services/geminiService";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  CalDavSettings,
+  CalendarListEntry,
+  CalendarProvider,
+  CalendarProviderId,
+  CalendarWrite,
+  ConflictAction,
+  EventTemplate,
+  ExtractionEngine,
+  ExtractionEngineId,
+  ExtractionMode,
+  ExtractionResult,
+  ImportRecord,
+  Shift,
+  ShiftNeedingAttention,
+  LayoutProfile,
+  OpenAiEngineSettings,
+  PaySettings,
+  RemovedShift,
+  SpreadsheetColumnMapping,
+  YearInference,
+} from "./types";
+import { createGeminiEngine } from "./services/geminiService";
+import {
+  MAX_NAME_ALIASES,
+  collectNames,
+  loadNameAliases,
+  saveNameAliases,
+  suggestNameAliases,
+} from "./services/nameAliases";
+import { createOpenAiCompatibleEngine } from "./services/openAiCompatibleEngine";
+import { createOfflineOcrEngine } from "./services/offlineOcrEngine";
+import { createDemoExtractionEngine } from "./services/demoExtractionEngine";
+import { createDemoCalendarProvider } from "./services/demoCalendarProvider";
+import { IS_DEMO_MODE, getSampleRosterFiles } from "./services/demoMode";
+import { DEMO_USER_NAME } from "./services/demoRecordings";
+import { mergeExtractionResults } from "./services/extractionMerge";
+import {
+  extractShiftsFromSpreadsheet,
+  guessColumnMapping,
+  isSpreadsheetFile,
+  readSpreadsheet,
+} from "./services/spreadsheetImport";
+import {
+  DEFAULT_LAYOUT_PROFILE,
+  ENGLISH_DAY_NAMES,
+  createLayoutProfile,
+  formatTimeRangeExamples,
+  getDayName,
+  loadLayoutProfiles,
+  parseTimeRangeExamples,
+  saveLayoutProfiles,
+  validateLayoutProfile,
+} from "./services/layoutProfiles";
+import {
+  applyScheduleYearToResult,
+  getReferenceDate,
+} from "./services/scheduleYear";
+import { endsNextDay, getShiftEndDate } from "./services/shiftTime";
+import {
+  checkShiftConsistency,
+  isLowConfidence,
+  isSuspicious,
+  validateShift,
+} from "./services/shiftValidation";
+import { RosterDiff, diffRoster } from "./services/rosterDiff";
+import {
+  CONFLICT_ACTION_LABELS,
+  findShiftConflicts,
+  formatConflictTime,
+  fromBusyIntervals,
+  fromCalendarEvents,
+  getConflictActions,
+  getConflictWindow,
+} from "./services/conflictCheck";
+import { getBrowserTimeZone } from "./services/timeZones";
+import { executeCalendarWrites } from "./services/calendarWrites";
+import {
+  CALENDAR_EVENT_COLORS,
+  TEMPLATE_PLACEHOLDERS,
+  buildShiftEventInput,
+  loadEventTemplate,
+  parseReminderMinutes,
+  saveEventTemplate,
+  withEmployeeNameInTitle,
+} from "./services/eventTemplate";
+import { buildIcsCalendar } from "./services/icsExport";
+import {
+  buildRosterCsv,
+  groupShiftsByEmployee,
+  toFileNamePart,
+} from "./services/teamRoster";
+import { downloadFile, printHtml } from "./services/download";
+import {
+  createThumbnail,
+  deleteImportRecord,
+  listImportRecords,
+  saveImportRecord,
+} from "./services/importHistory";
+import {
+  HoursSummary,
+  HoursTotals,
+  buildMonthlyReport,
+  buildPayReportCsv,
+  buildPayReportHtml,
+  calculateShiftPay,
+  formatHours,
+  formatPay,
+  getReportMonths,
+  loadPaySettings,
+  savePaySettings,
+  summarizeShiftPay,
+} from "./services/paySummary";
+import {
+  HistoryShift,
+  loadShiftHistory,
+  recordCalendarWrites,
+  saveShiftHistory,
+} from "./services/shiftHistory";
+import { createGoogleCalendarProvider } from "./services/googleCalendarProvider";
+import { createCalDavCalendarProvider } from "./services/caldavCalendarProvider";
+import {
+  DEFAULT_GRAPH_URL,
+  createGraphCalendarProvider,
+} from "./services/graphCalendarProvider";
+import {
+  getMicrosoftAccessToken,
+  getMicrosoftAccount,
+  isMicrosoftSignInConfigured,
+  signInToMicrosoft,
+  signOutOfMicrosoft,
+} from "./services/microsoftAuth";
 import { motion, AnimatePresence } from "framer-motion";
 
 // --- Declarations, Interfaces, and SVGs ---
@@ -16,6 +152,24 @@ const GOOGLE_CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID;
 const SCOPES =
   "https://www.googleapis.com/auth/calendar.events https://www.googleapis.com/auth/calendar.readonly";
 
+const EXTRACTION_ENGINES: { id: ExtractionEngineId; name: string }[] = [
+  { id: "gemini", name: "Gemini (cloud)" },
+  { id: "openai", name: "OpenAI-compatible endpoint" },
+  { id: "offline", name: "Offline OCR (image stays on this device)" },
+  ...(IS_DEMO_MODE
+    ? [{ id: "demo" as const, name: "Demo (recorded sample results)" }]
+    : []),
+];
+
+const CALENDAR_PROVIDERS: { id: CalendarProviderId; name: string }[] = [
+  { id: "google", name: "Google Calendar" },
+  { id: "caldav", name: "CalDAV (Nextcloud, iCloud, Radicale...)" },
+  { id: "microsoft", name: "Microsoft Outlook / 365" },
+  ...(IS_DEMO_MODE
+    ? [{ id: "demo" as const, name: "Demo calendar (in memory)" }]
+    : []),
+];
+
 const UserIcon = () => (
   <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -92,6 +246,32 @@ const ExclamationIcon = ({ className = "h-5 w-5 text-red-500" }) => (
   </svg>
 );
 
+const PencilIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-4 w-4"
+    viewBox="0 0 20 20"
+    fill="currentColor"
+  >
+    <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+  </svg>
+);
+
+const TrashIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-4 w-4"
+    viewBox="0 0 20 20"
+    fill="currentColor"
+  >
+    <path
+      fillRule="evenodd"
+      d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z"
+      clipRule="evenodd"
+    />
+  </svg>
+);
+
 const Spinner = () => (
   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-200"></div>
 );
@@ -183,25 +363,32 @@ const Stepper: React.FC<StepperProps> = ({ steps, currentStep }) => {
 
 // --- FileUpload Component ---
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   disabled: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
+const isScheduleFile = (file: File) =>
+  file.type.startsWith("image/") ||
+  file.type === "application/pdf" ||
+  isSpreadsheetFile(file);
+
+const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, disabled }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) onFileSelect(file);
+    const files = Array.from(e.target.files || []).filter(isScheduleFile);
+    if (files.length > 0) onFilesSelect(files);
+    // Allow picking the same file again after removing it.
+    e.target.value = "";
   };
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDraggingOver(false);
     if (disabled) return;
-    const file = e.dataTransfer.files?.[0];
-    if (file && file.type.startsWith("image/")) {
-      onFileSelect(file);
+    const files = Array.from(e.dataTransfer.files || []).filter(isScheduleFile);
+    if (files.length > 0) {
+      onFilesSelect(files);
     }
   };
 
@@ -216,7 +403,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
             const file = new File([blob], "pasted-image.png", {
               type: blob.type,
             });
-            onFileSelect(file);
+            onFilesSelect([file]);
             return;
           }
         }
@@ -255,20 +442,21 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
         <div className="text-center">
           <UploadIcon />
           <p className="mt-2 text-sm text-gray-400 font-semibold">
-            Drag & drop your schedule image here
+            Drag & drop your schedule images, PDF or spreadsheet here
           </p>
           <div className="mt-4 space-y-2 sm:space-y-0 sm:flex sm:justify-center sm:space-x-4">
             <label
               htmlFor="file-upload"
               className={`cursor-pointer inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-indigo-300 bg-indigo-900/50 hover:bg-indigo-800/50 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-indigo-500 transition-all duration-200 ${disabled ? "pointer-events-none" : ""}`}
             >
-              Choose file
+              Choose files
               <input
                 id="file-upload"
                 name="file-upload"
                 type="file"
                 className="sr-only"
-                accept="image/*"
+                accept="image/*,application/pdf,.xlsx,.xls,.csv"
+                multiple
                 onChange={handleFileChange}
                 disabled={disabled}
               />
@@ -287,6 +475,1202 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, disabled }) => {
   );
 };
 
+// --- NameAliasEditor Component ---
+interface NameAliasEditorProps {
+  userName: string;
+  aliases: string[];
+  onChange: (aliases: string[]) => void;
+}
+
+const NameAliasEditor: React.FC<NameAliasEditorProps> = ({
+  userName,
+  aliases,
+  onChange,
+}) => {
+  const [newAlias, setNewAlias] = useState("");
+  const suggestions = useMemo(
+    () => suggestNameAliases(userName, aliases),
+    [userName, aliases],
+  );
+  const isFull = aliases.length >= MAX_NAME_ALIASES;
+
+  const addAlias = (alias: string) => {
+    const updated = collectNames("", [...aliases, alias]);
+    if (updated.length > MAX_NAME_ALIASES) return;
+    onChange(updated);
+    setNewAlias("");
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <label
+        htmlFor="name-alias"
+        className="block text-xs font-medium text-gray-400"
+      >
+        Other ways your name is written (spellings, nicknames, initials)
+      </label>
+      {aliases.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {aliases.map((alias) => (
+            <span
+              key={alias}
+              className="inline-flex items-center rounded-full bg-indigo-900/50 ring-1 ring-indigo-700 pl-3 pr-1 py-1 text-sm text-indigo-200"
+            >
+              {alias}
+              <button
+                onClick={() => onChange(aliases.filter((a) => a !== alias))}
+                className="ml-1 rounded-full px-1.5 text-indigo-300 hover:text-white hover:bg-indigo-700/60 transition-colors"
+                title={`Remove "${alias}"`}
+              >
+                &times;
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          id="name-alias"
+          value={newAlias}
+          disabled={isFull}
+          onChange={(e) => setNewAlias(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && newAlias.trim()) addAlias(newAlias);
+          }}
+          className="focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-2 px-3 text-gray-200 placeholder-gray-500 disabled:opacity-50"
+          placeholder={
+            isFull
+              ? `Up to ${MAX_NAME_ALIASES} other names`
+              : "e.g., Alex K. or אלכס"
+          }
+        />
+        <button
+          onClick={() => addAlias(newAlias)}
+          disabled={isFull || !newAlias.trim()}
+          className="px-4 py-2 text-sm font-medium rounded-lg text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Add
+        </button>
+      </div>
+      {suggestions.length > 0 && !isFull && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          Suggestions:
+          {suggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              onClick={() => addAlias(suggestion)}
+              className="rounded-full border border-dashed border-gray-600 px-2 py-0.5 text-gray-300 hover:border-indigo-500 hover:text-indigo-300 transition-colors"
+            >
+              + {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        Shifts under any of these names are found. Suggested spellings are
+        guesses; add only the ones your roster uses.
+      </p>
+    </div>
+  );
+};
+
+// --- LayoutProfileEditor Component ---
+interface LayoutProfileEditorProps {
+  profile: LayoutProfile;
+  onSave: (profile: LayoutProfile) => void;
+  onCancel: () => void;
+  onDelete: () => void;
+}
+
+const LayoutProfileEditor: React.FC<LayoutProfileEditorProps> = ({
+  profile,
+  onSave,
+  onCancel,
+  onDelete,
+}) => {
+  const [name, setName] = useState(profile.name);
+  const [language, setLanguage] = useState(profile.language);
+  const [dateFormat, setDateFormat] = useState(profile.dateFormat);
+  const [locations, setLocations] = useState(profile.locations.join(", "));
+  const [dayNames, setDayNames] = useState(profile.dayNames);
+  const [timeRanges, setTimeRanges] = useState(
+    formatTimeRangeExamples(profile.timeRangeExamples),
+  );
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const inputClassName =
+    "block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-2 px-3 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+  const dayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+  const handleSave = () => {
+    const updated: LayoutProfile = {
+      ...profile,
+      name: name.trim(),
+      language: language.trim(),
+      dateFormat: dateFormat.trim(),
+      locations: locations
+        .split(",")
+        .map((l) => l.trim())
+        .filter(Boolean),
+      dayNames: dayNames.map((d) => d.trim()),
+      timeRangeExamples: parseTimeRangeExamples(timeRanges),
+    };
+    const problem = validateLayoutProfile(updated);
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+    onSave(updated);
+  };
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg border border-gray-700 bg-gray-900/50">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Profile name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Roster language
+          </label>
+          <input
+            type="text"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            className={inputClassName}
+            placeholder="e.g., Hebrew"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Date format
+          </label>
+          <input
+            type="text"
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value)}
+            className={inputClassName}
+            placeholder="e.g., DD.MM.YY"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Location columns (comma separated)
+          </label>
+          <input
+            type="text"
+            value={locations}
+            onChange={(e) => setLocations(e.target.value)}
+            className={inputClassName}
+            placeholder="e.g., ASICS, ORIGINALS"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Day names as written on the roster
+        </label>
+        <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+          {dayNames.map((day, i) => (
+            <input
+              key={dayLabels[i]}
+              type="text"
+              value={day}
+              onChange={(e) =>
+                setDayNames(
+                  dayNames.map((d, j) => (j === i ? e.target.value : d)),
+                )
+              }
+              className={inputClassName}
+              placeholder={dayLabels[i]}
+              title={dayLabels[i]}
+            />
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Time range examples (one per line, e.g. "9-16 =&gt; 09:00-16:00")
+        </label>
+        <textarea
+          value={timeRanges}
+          onChange={(e) => setTimeRanges(e.target.value)}
+          rows={3}
+          className={`${inputClassName} font-mono`}
+        />
+      </div>
+      {validationError && (
+        <p className="text-xs text-red-400">{validationError}</p>
+      )}
+      <div className="flex justify-between items-center">
+        <button
+          onClick={onDelete}
+          className="text-sm text-gray-400 hover:text-red-400 transition-colors"
+        >
+          Delete profile
+        </button>
+        <div className="space-x-4">
+          <button
+            onClick={onCancel}
+            className="text-sm text-gray-400 hover:text-indigo-400 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-indigo-300 bg-indigo-900/50 hover:bg-indigo-800/50 transition-all duration-200"
+          >
+            Save profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- ShiftEditor Component ---
+interface ShiftEditorProps {
+  shift: Shift;
+  profile: LayoutProfile;
+  // Whole-roster imports say whose shift it is.
+  showEmployeeName?: boolean;
+  onSave: (shift: Shift) => void;
+  onCancel: () => void;
+}
+
+const ShiftEditor: React.FC<ShiftEditorProps> = ({
+  shift,
+  profile,
+  showEmployeeName = false,
+  onSave,
+  onCancel,
+}) => {
+  const [employeeName, setEmployeeName] = useState(shift.employeeName || "");
+  const [date, setDate] = useState(shift.date);
+  const [startTime, setStartTime] = useState(shift.startTime);
+  const [endTime, setEndTime] = useState(shift.endTime);
+  // The select shows the first location until one is chosen.
+  const [location, setLocation] = useState(
+    shift.location || profile.locations[0] || "",
+  );
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const locationOptions =
+    shift.location && !profile.locations.includes(shift.location)
+      ? [...profile.locations, shift.location]
+      : profile.locations;
+  const inputClassName =
+    "block w-full text-sm bg-gray-700/50 border-gray-600 rounded-lg py-2 px-3 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+  const handleSave = () => {
+    const updated: Shift = {
+      ...shift,
+      date,
+      startTime,
+      endTime,
+      location,
+      dayOfWeek:
+        date === shift.date ? shift.dayOfWeek : getDayName(profile, date),
+      endsNextDay: endsNextDay(startTime, endTime),
+      ...(showEmployeeName ? { employeeName: employeeName.trim() } : {}),
+    };
+    const problem =
+      showEmployeeName && !employeeName.trim()
+        ? "Enter the employee's name."
+        : validateShift(updated);
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+    onSave(updated);
+  };
+
+  return (
+    <div className="p-4 rounded-lg border border-indigo-700 bg-gray-900/70 space-y-3">
+      {showEmployeeName && (
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Employee
+          </label>
+          <input
+            type="text"
+            value={employeeName}
+            onChange={(e) => setEmployeeName(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      )}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Date
+          </label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Start
+          </label>
+          <input
+            type="time"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            End
+          </label>
+          <input
+            type="time"
+            value={endTime}
+            onChange={(e) => setEndTime(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Location
+          </label>
+          <select
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            className={inputClassName}
+          >
+            {locationOptions.map((loc) => (
+              <option key={loc} value={loc}>
+                {loc}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {startTime && endTime && endsNextDay(startTime, endTime) && (
+        <p className="text-xs text-purple-300">Ends the next day (+1 day).</p>
+      )}
+      {validationError && (
+        <p className="text-xs text-red-400">{validationError}</p>
+      )}
+      <div className="flex justify-end space-x-4">
+        <button
+          onClick={onCancel}
+          className="text-sm text-gray-400 hover:text-indigo-400 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-indigo-300 bg-indigo-900/50 hover:bg-indigo-800/50 transition-all duration-200"
+        >
+          Save shift
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- EventTemplateSettings Component ---
+interface EventTemplateSettingsProps {
+  template: EventTemplate;
+  locations: string[];
+  onChange: (template: EventTemplate) => void;
+}
+
+const EventTemplateSettings: React.FC<EventTemplateSettingsProps> = ({
+  template,
+  locations,
+  onChange,
+}) => {
+  const [reminders, setReminders] = useState(
+    template.reminderMinutes.join(", "),
+  );
+  const inputClassName =
+    "block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-2 px-3 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg border border-gray-700 bg-gray-900/50">
+      <p className="text-xs text-gray-500">
+        Placeholders:{" "}
+        {TEMPLATE_PLACEHOLDERS.map((name) => `{${name}}`).join(", ")}
+      </p>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Event title
+        </label>
+        <input
+          type="text"
+          value={template.title}
+          onChange={(e) => onChange({ ...template, title: e.target.value })}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Event description
+        </label>
+        <textarea
+          value={template.description}
+          onChange={(e) =>
+            onChange({ ...template, description: e.target.value })
+          }
+          rows={2}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Colour per location
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {locations.map((location) => (
+            <div key={location} className="flex items-center space-x-2">
+              <span
+                className="w-4 h-4 rounded-full flex-shrink-0 bg-gray-600"
+                style={{
+                  backgroundColor: CALENDAR_EVENT_COLORS.find(
+                    (c) => c.id === template.colorIds[location],
+                  )?.hex,
+                }}
+              />
+              <span className="text-sm text-gray-300 w-28 truncate">
+                {location}
+              </span>
+              <select
+                value={template.colorIds[location] || ""}
+                onChange={(e) => {
+                  const { [location]: _, ...others } = template.colorIds;
+                  onChange({
+                    ...template,
+                    colorIds: e.target.value
+                      ? { ...others, [location]: e.target.value }
+                      : others,
+                  });
+                }}
+                className={inputClassName}
+              >
+                <option value="">Calendar default</option>
+                {CALENDAR_EVENT_COLORS.map((color) => (
+                  <option key={color.id} value={color.id}>
+                    {color.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Reminders (minutes before, comma separated)
+        </label>
+        <input
+          type="text"
+          value={reminders}
+          onChange={(e) => {
+            setReminders(e.target.value);
+            onChange({
+              ...template,
+              reminderMinutes: parseReminderMinutes(e.target.value),
+            });
+          }}
+          className={inputClassName}
+          placeholder="Leave empty for the calendar's default, e.g. 60, 15"
+        />
+      </div>
+    </div>
+  );
+};
+
+// --- PaySettingsEditor Component ---
+interface PaySettingsEditorProps {
+  settings: PaySettings;
+  locations: string[];
+  onChange: (settings: PaySettings) => void;
+}
+
+const PaySettingsEditor: React.FC<PaySettingsEditorProps> = ({
+  settings,
+  locations,
+  onChange,
+}) => {
+  const inputClassName =
+    "block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-2 px-3 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+  const numberField = (
+    label: string,
+    key: {
+      [K in keyof PaySettings]: PaySettings[K] extends number ? K : never;
+    }[keyof PaySettings],
+    step = "0.01",
+  ) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-400 mb-1">
+        {label}
+      </label>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={settings[key]}
+        onChange={(e) =>
+          onChange({ ...settings, [key]: Number(e.target.value) || 0 })
+        }
+        className={inputClassName}
+      />
+    </div>
+  );
+  const timeField = (label: string, key: "nightStart" | "nightEnd") => (
+    <div>
+      <label className="block text-xs font-medium text-gray-400 mb-1">
+        {label}
+      </label>
+      <input
+        type="time"
+        value={settings[key]}
+        onChange={(e) =>
+          e.target.value && onChange({ ...settings, [key]: e.target.value })
+        }
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg border border-gray-700 bg-gray-900/50">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Currency
+          </label>
+          <input
+            type="text"
+            value={settings.currency}
+            onChange={(e) =>
+              onChange({ ...settings, currency: e.target.value })
+            }
+            className={inputClassName}
+            placeholder="e.g. ₪"
+          />
+        </div>
+        {numberField("Hourly rate", "defaultRate")}
+      </div>
+      {locations.length > 0 && (
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Hourly rate per location (empty uses the rate above)
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {locations.map((location) => (
+              <div key={location} className="flex items-center space-x-2">
+                <span className="text-sm text-gray-300 w-28 truncate">
+                  {location}
+                </span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={settings.rates[location] ?? ""}
+                  onChange={(e) => {
+                    const { [location]: _, ...others } = settings.rates;
+                    onChange({
+                      ...settings,
+                      rates:
+                        e.target.value === ""
+                          ? others
+                          : { ...others, [location]: Number(e.target.value) },
+                    });
+                  }}
+                  className={inputClassName}
+                  placeholder={settings.defaultRate.toString()}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        {numberField("Unpaid break (minutes)", "unpaidBreakMinutes", "1")}
+        {numberField("For shifts of at least (hours)", "unpaidBreakAfterHours")}
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {numberField("Overtime after (hours/day)", "dailyOvertimeHours")}
+        {numberField("Overtime after (hours/week)", "weeklyOvertimeHours")}
+        {numberField("Overtime multiplier", "overtimeMultiplier")}
+      </div>
+      <p className="text-xs text-gray-500">
+        Set a threshold to 0 to turn it off.
+      </p>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Weekend days
+        </label>
+        <div className="flex flex-wrap gap-3">
+          {ENGLISH_DAY_NAMES.map((name, day) => (
+            <label
+              key={name}
+              className="flex items-center gap-1 text-sm text-gray-300"
+            >
+              <input
+                type="checkbox"
+                checked={settings.weekendDays.includes(day)}
+                onChange={(e) =>
+                  onChange({
+                    ...settings,
+                    weekendDays: e.target.checked
+                      ? [...settings.weekendDays, day]
+                      : settings.weekendDays.filter((d) => d !== day),
+                  })
+                }
+                className="accent-indigo-500"
+              />
+              {name.slice(0, 3)}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Week starts on
+          </label>
+          <select
+            value={settings.weekStartDay}
+            onChange={(e) =>
+              onChange({ ...settings, weekStartDay: Number(e.target.value) })
+            }
+            className={inputClassName}
+          >
+            {ENGLISH_DAY_NAMES.map((name, day) => (
+              <option key={name} value={day}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {numberField("Weekend multiplier", "weekendMultiplier")}
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {timeField("Night from", "nightStart")}
+        {timeField("Night until", "nightEnd")}
+        {numberField("Night multiplier", "nightMultiplier")}
+      </div>
+    </div>
+  );
+};
+
+// --- HoursSummaryPanel Component ---
+interface HoursSummaryPanelProps {
+  summary: HoursSummary;
+  currency: string;
+}
+
+const HoursSummaryPanel: React.FC<HoursSummaryPanelProps> = ({
+  summary,
+  currency,
+}) => {
+  const rows = (
+    items: (HoursTotals & { label: string })[],
+    heading: string,
+  ) => (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-gray-500 text-left">
+          <th className="font-medium py-1">{heading}</th>
+          <th className="font-medium py-1 text-right">Paid hours</th>
+          <th className="font-medium py-1 text-right">Overtime</th>
+          <th className="font-medium py-1 text-right">Pay</th>
+        </tr>
+      </thead>
+      <tbody className="text-gray-300">
+        {items.map((item) => (
+          <tr key={item.label}>
+            <td className="py-0.5">{item.label}</td>
+            <td className="py-0.5 text-right">{formatHours(item.paidHours)}</td>
+            <td className="py-0.5 text-right">
+              {formatHours(item.overtimeHours)}
+            </td>
+            <td className="py-0.5 text-right">
+              {formatPay(item.pay, currency)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg border border-gray-700 bg-gray-900/50">
+      <p className="text-sm text-gray-200">
+        <span className="font-semibold">
+          {formatHours(summary.total.paidHours)} paid hours
+        </span>{" "}
+        of {formatHours(summary.total.hours)} scheduled &middot;{" "}
+        {formatPay(summary.total.pay, currency)}
+      </p>
+      {rows(
+        summary.weeks.map((week) => ({
+          ...week,
+          label: `Week of ${week.weekStart}`,
+        })),
+        "Week",
+      )}
+      {rows(
+        summary.locations.map((location) => ({
+          ...location,
+          label: location.location,
+        })),
+        "Location",
+      )}
+    </div>
+  );
+};
+
+// --- MonthlyReportPanel Component ---
+interface MonthlyReportPanelProps {
+  history: HistoryShift[];
+  settings: PaySettings;
+  onError: (message: string) => void;
+}
+
+const MonthlyReportPanel: React.FC<MonthlyReportPanelProps> = ({
+  history,
+  settings,
+  onError,
+}) => {
+  const months = useMemo(() => getReportMonths(history), [history]);
+  const [month, setMonth] = useState(months[0] || "");
+  const report = useMemo(
+    () => buildMonthlyReport(history, settings, month),
+    [history, settings, month],
+  );
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border border-gray-700 bg-gray-900/50">
+      <div className="flex items-center gap-3">
+        <select
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+          className="block sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-2 px-3 text-gray-200"
+        >
+          {months.map((m) => (
+            <option key={m} value={m}>
+              {m}
+            </option>
+          ))}
+        </select>
+        <p className="text-sm text-gray-300">
+          {report.shifts.length} shifts &middot;{" "}
+          {formatHours(report.summary.total.paidHours)} paid hours &middot;{" "}
+          {formatPay(report.summary.total.pay, settings.currency)}
+        </p>
+      </div>
+      <div className="flex gap-4">
+        <button
+          onClick={() =>
+            downloadFile(
+              `hours-${month}.csv`,
+              buildPayReportCsv(report),
+              "text/csv;charset=utf-8",
+            )
+          }
+          className="text-sm font-medium text-gray-400 hover:text-indigo-400 transition-colors"
+        >
+          ⬇ CSV
+        </button>
+        <button
+          onClick={() => {
+            try {
+              printHtml(buildPayReportHtml(report, settings));
+            } catch (e: any) {
+              onError(e.message);
+            }
+          }}
+          className="text-sm font-medium text-gray-400 hover:text-indigo-400 transition-colors"
+        >
+          Print / save as PDF
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- ImportHistoryList Component ---
+interface ImportHistoryListProps {
+  records: ImportRecord[];
+  undoingImportId: string | null;
+  // Why an import can't be undone right now, or null when it can.
+  getUndoBlocker: (record: ImportRecord) => string | null;
+  onUndo: (record: ImportRecord) => void;
+  // Drops the record only; its events stay in the calendar.
+  onRemove: (record: ImportRecord) => void;
+}
+
+const ImportHistoryList: React.FC<ImportHistoryListProps> = ({
+  records,
+  undoingImportId,
+  getUndoBlocker,
+  onUndo,
+  onRemove,
+}) => {
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  if (records.length === 0) {
+    return (
+      <p className="text-sm text-gray-400">
+        Nothing imported yet. Imports appear here after shifts are added to a
+        calendar.
+      </p>
+    );
+  }
+  return (
+    <ul className="space-y-3">
+      {records.map((record) => {
+        const blocker = getUndoBlocker(record);
+        const dates = record.shifts.map((s) => s.date).sort();
+        return (
+          <li
+            key={record.id}
+            className="p-4 rounded-lg border border-gray-700 bg-gray-900/50 flex items-start gap-4"
+          >
+            {record.thumbnail ? (
+              <img
+                src={record.thumbnail}
+                alt=""
+                className="w-16 h-16 object-cover rounded-md flex-shrink-0"
+              />
+            ) : (
+              <div className="w-16 h-16 rounded-md flex-shrink-0 bg-gray-700" />
+            )}
+            <div className="flex-grow min-w-0">
+              <p className="font-semibold text-gray-200">
+                {new Date(record.importedAt).toLocaleString()}
+              </p>
+              <p className="text-sm text-gray-400">
+                {record.shifts.length} shifts
+                {dates.length > 0 &&
+                  ` from ${dates[0]} to ${dates[dates.length - 1]}`}{" "}
+                &middot; {record.calendarName}
+                {record.mode === "roster" && " (whole roster)"}
+              </p>
+              <p className="text-xs text-gray-500 truncate">
+                {record.sources.join(", ")}
+              </p>
+              {record.undoneAt ? (
+                <p className="text-xs text-gray-500 mt-1">
+                  Undone {new Date(record.undoneAt).toLocaleString()}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">
+                  {record.createdEventIds.length} events created
+                  {blocker && ` · ${blocker}`}
+                </p>
+              )}
+            </div>
+            <div className="flex-shrink-0 flex flex-col items-end gap-1">
+              {!record.undoneAt &&
+                record.createdEventIds.length > 0 &&
+                (confirmingId === record.id ? (
+                  <>
+                    <button
+                      onClick={() => {
+                        setConfirmingId(null);
+                        onUndo(record);
+                      }}
+                      className="px-3 py-1.5 rounded-md text-xs font-medium text-red-200 bg-red-800/50 hover:bg-red-700/50 transition-colors"
+                    >
+                      Delete {record.createdEventIds.length} events
+                    </button>
+                    <button
+                      onClick={() => setConfirmingId(null)}
+                      className="text-xs text-gray-400 hover:text-indigo-400 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setConfirmingId(record.id)}
+                    disabled={blocker !== null || undoingImportId !== null}
+                    className="px-3 py-1.5 rounded-md text-xs font-medium text-gray-300 border border-gray-600 hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {undoingImportId === record.id
+                      ? "Undoing..."
+                      : "Undo import"}
+                  </button>
+                ))}
+              {confirmingId !== record.id && (
+                <button
+                  onClick={() => onRemove(record)}
+                  disabled={undoingImportId === record.id}
+                  title={
+                    record.undoneAt || record.createdEventIds.length === 0
+                      ? undefined
+                      : "Its events stay in the calendar, but can no longer be undone from here."
+                  }
+                  className="text-xs text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Remove from history
+                </button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+// --- SpreadsheetMappingEditor Component ---
+interface SpreadsheetMappingEditorProps {
+  fileName: string;
+  rows: string[][];
+  mapping: SpreadsheetColumnMapping;
+  onChange: (mapping: SpreadsheetColumnMapping) => void;
+}
+
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : "") +
+  String.fromCharCode(65 + (index % 26));
+
+const SpreadsheetMappingEditor: React.FC<SpreadsheetMappingEditorProps> = ({
+  fileName,
+  rows,
+  mapping,
+  onChange,
+}) => {
+  const header = rows[mapping.headerRow] || [];
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  const columns = Array.from({ length: width }, (_, i) => ({
+    index: i,
+    label: header[i] ? `${columnLetter(i)} – ${header[i]}` : columnLetter(i),
+  }));
+  const previewRows = rows.slice(mapping.headerRow, mapping.headerRow + 6);
+  const selectClassName =
+    "block w-full text-sm bg-gray-700/50 border-gray-600 rounded-lg py-2 px-3 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+  const optionalColumn = (
+    value: number | null,
+    update: (value: number | null) => void,
+  ) => (
+    <select
+      value={value ?? ""}
+      onChange={(e) =>
+        update(e.target.value === "" ? null : Number(e.target.value))
+      }
+      className={selectClassName}
+    >
+      <option value="">None</option>
+      {columns.map((col) => (
+        <option key={col.index} value={col.index}>
+          {col.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="mt-6 space-y-4 p-4 rounded-lg border border-gray-700 bg-gray-900/50">
+      <p className="text-sm font-medium text-gray-300">
+        Column mapping for {fileName}
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Header row
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={rows.length}
+            value={mapping.headerRow + 1}
+            onChange={(e) =>
+              onChange({
+                ...mapping,
+                headerRow: Math.min(
+                  Math.max(Number(e.target.value) - 1, 0),
+                  rows.length - 1,
+                ),
+              })
+            }
+            className={selectClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Date column
+          </label>
+          <select
+            value={mapping.dateColumn}
+            onChange={(e) =>
+              onChange({ ...mapping, dateColumn: Number(e.target.value) })
+            }
+            className={selectClassName}
+          >
+            {columns.map((col) => (
+              <option key={col.index} value={col.index}>
+                {col.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Day name column (optional)
+          </label>
+          {optionalColumn(mapping.dayColumn, (dayColumn) =>
+            onChange({ ...mapping, dayColumn }),
+          )}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            Time column (optional)
+          </label>
+          {optionalColumn(mapping.timeColumn, (timeColumn) =>
+            onChange({ ...mapping, timeColumn }),
+          )}
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Location columns
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {columns.map((col) => {
+            const checked = mapping.locationColumns.includes(col.index);
+            return (
+              <button
+                key={col.index}
+                onClick={() =>
+                  onChange({
+                    ...mapping,
+                    locationColumns: checked
+                      ? mapping.locationColumns.filter((c) => c !== col.index)
+                      : [...mapping.locationColumns, col.index].sort(
+                          (a, b) => a - b,
+                        ),
+                  })
+                }
+                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${checked ? "bg-indigo-500/30 border-indigo-400 text-indigo-200" : "border-gray-600 text-gray-400 hover:border-indigo-500"}`}
+              >
+                {col.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">
+          Name matching
+        </label>
+        <select
+          value={mapping.nameMatch}
+          onChange={(e) =>
+            onChange({
+              ...mapping,
+              nameMatch: e.target
+                .value as SpreadsheetColumnMapping["nameMatch"],
+            })
+          }
+          className={selectClassName}
+        >
+          <option value="contains">Cell contains my name</option>
+          <option value="wholeWord">My name as a whole word</option>
+        </select>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="text-xs text-gray-400 border-collapse">
+          <tbody>
+            {previewRows.map((row, r) => (
+              <tr
+                key={r}
+                className={r === 0 ? "font-semibold text-gray-200" : ""}
+              >
+                {columns.map((col) => (
+                  <td
+                    key={col.index}
+                    className={`border border-gray-700 px-2 py-1 whitespace-pre-line ${mapping.locationColumns.includes(col.index) ? "bg-indigo-900/30" : col.index === mapping.dateColumn ? "bg-green-900/30" : ""}`}
+                  >
+                    {row[col.index] || ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// --- SourcePreview Component ---
+interface SourcePreviewProps {
+  files: { file: File; previewUrl: string }[];
+  shift: Shift | null;
+}
+
+const SourcePreview: React.FC<SourcePreviewProps> = ({ files, shift }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const entry = files[shift?.sourceFileIndex ?? 0];
+  const region = shift?.sourceRegion;
+
+  // Keep the highlighted cell in view on tall rosters.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !region) return;
+    const image = container.querySelector("img");
+    if (!image) return;
+    container.scrollTo({
+      top:
+        (region.y + region.height / 2) * image.clientHeight -
+        container.clientHeight / 2,
+      behavior: "smooth",
+    });
+  }, [region]);
+
+  if (!entry || !entry.file.type.startsWith("image/")) return null;
+  return (
+    <div
+      ref={containerRef}
+      className="max-h-72 overflow-y-auto rounded-lg border border-gray-700 bg-gray-900/50"
+    >
+      <div className="relative">
+        <img
+          src={entry.previewUrl}
+          alt={entry.file.name}
+          className="block w-full h-auto"
+        />
+        {region && (
+          <motion.div
+            className="absolute border-2 border-yellow-400 bg-yellow-400/20 rounded-sm pointer-events-none"
+            initial={false}
+            animate={{
+              left: `${region.x * 100}%`,
+              top: `${region.y * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`,
+            }}
+            transition={{ duration: 0.2 }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
 // --- StepCard Component ---
 const StepCard: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <motion.div
@@ -301,13 +1685,55 @@ const StepCard: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   </motion.div>
 );
 
+// Demo mode keeps everything in memory, so trying it out leaves the saved
+// settings, name and history as they were.
+const usePersistence = (save: () => void, deps: unknown[]) =>
+  useEffect(() => {
+    if (!IS_DEMO_MODE) save();
+  }, deps);
+
 export default function App() {
-  const [userName, setUserName] = useState(
-    () => localStorage.getItem("userName") || "",
+  const [userName, setUserName] = useState(() =>
+    IS_DEMO_MODE ? DEMO_USER_NAME : localStorage.getItem("userName") || "",
+  );
+  const [nameAliases, setNameAliases] = useState<string[]>(loadNameAliases);
+  const extractionNames = useMemo(
+    () => collectNames(userName, nameAliases),
+    [userName, nameAliases],
   );
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [scheduleFiles, setScheduleFiles] = useState<
+    { file: File; previewUrl: string }[]
+  >([]);
+  const [spreadsheet, setSpreadsheet] = useState<{
+    file: File;
+    rows: string[][];
+  } | null>(null);
+  const [columnMapping, setColumnMapping] =
+    useState<SpreadsheetColumnMapping | null>(null);
   const [extractedShifts, setExtractedShifts] = useState<Shift[]>([]);
+  const [shiftsNeedingAttention, setShiftsNeedingAttention] = useState<
+    ShiftNeedingAttention[]
+  >([]);
+  const [fixingShiftIndex, setFixingShiftIndex] = useState<number | null>(null);
+  const [yearInference, setYearInference] = useState<YearInference | null>(
+    null,
+  );
+  const [isYearConfirmed, setIsYearConfirmed] = useState(true);
+  const [removedShifts, setRemovedShifts] = useState<RemovedShift[]>([]);
+  const [calendarWrites, setCalendarWrites] = useState<CalendarWrite[]>([]);
+  // The import the current writes belong to; retries add to the same one.
+  const [currentImportId, setCurrentImportId] = useState<string | null>(null);
+  const [importRecords, setImportRecords] = useState<ImportRecord[]>([]);
+  const [undoingImportId, setUndoingImportId] = useState<string | null>(null);
+  const [highlightedShiftIndex, setHighlightedShiftIndex] = useState<
+    number | null
+  >(null);
+  const [editingShiftIndex, setEditingShiftIndex] = useState<
+    number | "new" | null
+  >(null);
+  const [expandedConflictIndex, setExpandedConflictIndex] = useState<
+    number | null
+  >(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -316,15 +1742,78 @@ export default function App() {
   const [isSignedIn, setIsSignedIn] = useState(
     () => localStorage.getItem("isSignedIn") === "true",
   );
-  const [calendars, setCalendars] = useState<GoogleCalendar[]>([]);
+  const [calendars, setCalendars] = useState<CalendarListEntry[]>([]);
   const [selectedCalendarId, setSelectedCalendarId] = useState<string | null>(
     () => localStorage.getItem("selectedCalendarId") || null,
   );
+  // Other calendars whose busy time counts as a conflict.
+  const [conflictCalendarIds, setConflictCalendarIds] = useState<string[]>(() =>
+    JSON.parse(localStorage.getItem("conflictCalendarIds") || "[]"),
+  );
+  const [calendarProviderId, setCalendarProviderId] =
+    useState<CalendarProviderId>(() =>
+      IS_DEMO_MODE
+        ? "demo"
+        : (localStorage.getItem("calendarProvider") as CalendarProviderId) ||
+          "google",
+    );
+  // The CalDAV password is kept for this browser session only.
+  const [caldavSettings, setCaldavSettings] = useState<CalDavSettings>(() => ({
+    serverUrl: localStorage.getItem("caldavServerUrl") || "",
+    username: localStorage.getItem("caldavUsername") || "",
+    password: sessionStorage.getItem("caldavPassword") || "",
+  }));
+  const [isCaldavConnected, setIsCaldavConnected] = useState(
+    () => sessionStorage.getItem("caldavPassword") !== null,
+  );
+  const [microsoftAccount, setMicrosoftAccount] = useState<string | null>(null);
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>(
+    () =>
+      (localStorage.getItem("extractionMode") as ExtractionMode) || "personal",
+  );
+  const isRosterMode = extractionMode === "roster";
+  const [extractionEngineId, setExtractionEngineId] =
+    useState<ExtractionEngineId>(() =>
+      IS_DEMO_MODE
+        ? "demo"
+        : (localStorage.getItem("extractionEngine") as ExtractionEngineId) ||
+          "gemini",
+    );
+  // Like the CalDAV password, the API key is kept for this session only.
+  const [openAiSettings, setOpenAiSettings] = useState<OpenAiEngineSettings>(
+    () => ({
+      baseUrl:
+        localStorage.getItem("openAiBaseUrl") || "http://localhost:11434/v1",
+      model: localStorage.getItem("openAiModel") || "",
+      apiKey: sessionStorage.getItem("openAiApiKey") || "",
+    }),
+  );
 
-  type AppStep = "CONFIG" | "UPLOAD" | "REVIEW" | "ADDING" | "DONE";
-  const [appStep, setAppStep] = useState<AppStep>("CONFIG");
-
-  useEffect(() => {
+  const [layoutProfiles, setLayoutProfiles] =
+    useState<LayoutProfile[]>(loadLayoutProfiles);
+  const [selectedLayoutProfileId, setSelectedLayoutProfileId] = useState(
+    () =>
+      localStorage.getItem("selectedLayoutProfileId") ||
+      DEFAULT_LAYOUT_PROFILE.id,
+  );
+  const [editingProfile, setEditingProfile] = useState<LayoutProfile | null>(
+    null,
+  );
+  const [eventTemplate, setEventTemplate] =
+    useState<EventTemplate>(loadEventTemplate);
+  const [paySettings, setPaySettings] = useState<PaySettings>(loadPaySettings);
+  // Demo imports start a history of their own.
+  const [shiftHistory, setShiftHistory] = useState<HistoryShift[]>(() =>
+    IS_DEMO_MODE ? [] : loadShiftHistory(),
+  );
+  const selectedLayoutProfile =
+    layoutProfiles.find((p) => p.id === selectedLayoutProfileId) ||
+    DEFAULT_LAYOUT_PROFILE;
+
+  type AppStep = "CONFIG" | "UPLOAD" | "REVIEW" | "ADDING" | "DONE" | "HISTORY";
+  const [appStep, setAppStep] = useState<AppStep>("CONFIG");
+
+  useEffect(() => {
     const style = document.createElement("style");
     style.innerHTML = `
             @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;900&display=swap');
@@ -337,31 +1826,112 @@ export default function App() {
     document.head.appendChild(style);
   }, []);
 
-  useEffect(() => {
+  usePersistence(() => {
     localStorage.setItem("userName", userName);
   }, [userName]);
-  useEffect(() => {
+  usePersistence(() => {
+    saveNameAliases(nameAliases);
+  }, [nameAliases]);
+  usePersistence(() => {
     localStorage.setItem("isSignedIn", isSignedIn.toString());
   }, [isSignedIn]);
-  useEffect(() => {
+  usePersistence(() => {
     if (selectedCalendarId) {
       localStorage.setItem("selectedCalendarId", selectedCalendarId);
     }
   }, [selectedCalendarId]);
+  usePersistence(() => {
+    localStorage.setItem(
+      "conflictCalendarIds",
+      JSON.stringify(conflictCalendarIds),
+    );
+  }, [conflictCalendarIds]);
+  usePersistence(() => {
+    localStorage.setItem("calendarProvider", calendarProviderId);
+  }, [calendarProviderId]);
+  usePersistence(() => {
+    localStorage.setItem("extractionEngine", extractionEngineId);
+  }, [extractionEngineId]);
+  usePersistence(() => {
+    localStorage.setItem("extractionMode", extractionMode);
+  }, [extractionMode]);
+  usePersistence(() => {
+    localStorage.setItem("openAiBaseUrl", openAiSettings.baseUrl);
+    localStorage.setItem("openAiModel", openAiSettings.model);
+    sessionStorage.setItem("openAiApiKey", openAiSettings.apiKey);
+  }, [openAiSettings]);
+
+  const extractionEngine = useMemo((): ExtractionEngine => {
+    switch (extractionEngineId) {
+      case "gemini":
+        return createGeminiEngine();
+      case "openai":
+        return createOpenAiCompatibleEngine(openAiSettings);
+      case "offline":
+        return createOfflineOcrEngine();
+      case "demo":
+        return createDemoExtractionEngine();
+    }
+  }, [extractionEngineId, openAiSettings]);
+
+  const isCalendarConnected = {
+    google: isSignedIn,
+    caldav: isCaldavConnected,
+    microsoft: microsoftAccount !== null,
+    demo: true,
+  }[calendarProviderId];
+
+  // Created once, so its events survive switching providers back and forth.
+  const demoCalendarProvider = useMemo(createDemoCalendarProvider, []);
+  const calendarProvider = useMemo((): CalendarProvider => {
+    switch (calendarProviderId) {
+      case "google":
+        return createGoogleCalendarProvider();
+      case "caldav":
+        return createCalDavCalendarProvider(caldavSettings);
+      case "microsoft":
+        return createGraphCalendarProvider({
+          baseUrl:
+            import.meta.env.VITE_MICROSOFT_GRAPH_URL || DEFAULT_GRAPH_URL,
+          getAccessToken: getMicrosoftAccessToken,
+        });
+      case "demo":
+        return demoCalendarProvider;
+    }
+  }, [calendarProviderId, caldavSettings, demoCalendarProvider]);
+
+  usePersistence(() => {
+    saveLayoutProfiles(layoutProfiles);
+  }, [layoutProfiles]);
+  usePersistence(() => {
+    saveEventTemplate(eventTemplate);
+  }, [eventTemplate]);
+  usePersistence(() => {
+    savePaySettings(paySettings);
+  }, [paySettings]);
+  usePersistence(() => {
+    saveShiftHistory(shiftHistory);
+  }, [shiftHistory]);
+  usePersistence(() => {
+    localStorage.setItem("selectedLayoutProfileId", selectedLayoutProfileId);
+  }, [selectedLayoutProfileId]);
 
   const listCalendars = useCallback(async () => {
-    if (!isSignedIn || !isApiReady) return;
+    if (!isCalendarConnected) return;
+    if (calendarProviderId === "google" && !isApiReady) return;
     try {
-      const response = await window.gapi.client.calendar.calendarList.list();
-      const items = response.result.items.filter(
-        (cal: any) => cal.accessRole === "owner" || cal.accessRole === "writer",
-      );
+      const items = await calendarProvider.listCalendars();
       setCalendars(items);
-      if (items.length > 0 && !selectedCalendarId) {
-        const workCalendar = items.find((cal: GoogleCalendar) =>
+      const writable = items.filter((cal) => cal.canWrite);
+      // A saved choice may belong to another account or to demo mode.
+      if (
+        writable.length > 0 &&
+        !writable.some((cal) => cal.id === selectedCalendarId)
+      ) {
+        const workCalendar = writable.find((cal) =>
           cal.summary.toLowerCase().includes("work"),
         );
-        setSelectedCalendarId(workCalendar ? workCalendar.id : items[0].id);
+        setSelectedCalendarId(workCalendar ? workCalendar.id : writable[0].id);
       }
     } catch (e: any) {
       console.error("Error listing calendars:", e);
@@ -369,9 +1939,17 @@ export default function App() {
         `Failed to list calendars: ${e.result?.error?.message || e.message || "Unknown error"}`,
       );
     }
-  }, [isSignedIn, selectedCalendarId, isApiReady]);
+  }, [
+    isCalendarConnected,
+    calendarProviderId,
+    calendarProvider,
+    selectedCalendarId,
+    isApiReady,
+  ]);
 
   useEffect(() => {
+    // Demo mode runs without a network.
+    if (IS_DEMO_MODE) return;
     const gapiScript = document.createElement("script");
     gapiScript.src = "https://apis.google.com/js/api.js";
     gapiScript.onload = () => {
@@ -423,8 +2001,15 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    if (isSignedIn && isApiReady) listCalendars();
-  }, [isSignedIn, isApiReady, listCalendars]);
+    listCalendars();
+  }, [listCalendars]);
+
+  useEffect(() => {
+    if (!isMicrosoftSignInConfigured()) return;
+    getMicrosoftAccount()
+      .then((account) => setMicrosoftAccount(account?.username ?? null))
+      .catch((e) => console.warn("Could not restore Microsoft sign-in:", e));
+  }, []);
 
   const handleSignIn = () => {
     if (tokenClient) tokenClient.requestAccessToken();
@@ -434,103 +2019,236 @@ export default function App() {
       );
   };
 
+  const resetCalendarSelection = () => {
+    setAppStep("CONFIG");
+    setSelectedCalendarId(null);
+    setCalendars([]);
+    setConflictCalendarIds([]);
+    localStorage.removeItem("selectedCalendarId");
+  };
+
   const handleSignOut = () => {
     const token = window.gapi.client.getToken();
     if (token && window.google) {
       window.google.accounts.oauth2.revoke(token.access_token, () => {
         window.gapi.client.setToken(null);
         setIsSignedIn(false);
-        setAppStep("CONFIG");
-        setSelectedCalendarId(null);
-        setCalendars([]);
+        resetCalendarSelection();
         localStorage.removeItem("isSignedIn");
-        localStorage.removeItem("selectedCalendarId");
       });
     } else {
       setIsSignedIn(false);
-      setAppStep("CONFIG");
-      setSelectedCalendarId(null);
-      setCalendars([]);
+      resetCalendarSelection();
       localStorage.removeItem("isSignedIn");
-      localStorage.removeItem("selectedCalendarId");
     }
   };
 
-  const handleFileSelected = (file: File) => {
-    if (file) {
-      setImageFile(file);
-      setImagePreview(URL.createObjectURL(file));
-      setError(null);
-      // Don't auto-advance. Let the user click 'Extract'.
+  const handleChangeCalendarProvider = (id: CalendarProviderId) => {
+    setCalendarProviderId(id);
+    resetCalendarSelection();
+  };
+
+  const handleConnectCalDav = async () => {
+    setError(null);
+    setIsLoading(true);
+    setLoadingMessage("Connecting to your CalDAV server...");
+    try {
+      // Listing calendars doubles as a check of the address and password.
+      await createCalDavCalendarProvider(caldavSettings).listCalendars();
+      localStorage.setItem("caldavServerUrl", caldavSettings.serverUrl);
+      localStorage.setItem("caldavUsername", caldavSettings.username);
+      sessionStorage.setItem("caldavPassword", caldavSettings.password);
+      setIsCaldavConnected(true);
+    } catch (e: any) {
+      setError(e.message || "Could not connect to the CalDAV server.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisconnectCalDav = () => {
+    sessionStorage.removeItem("caldavPassword");
+    setCaldavSettings((settings) => ({ ...settings, password: "" }));
+    setIsCaldavConnected(false);
+    resetCalendarSelection();
+  };
+
+  const handleMicrosoftSignIn = async () => {
+    setError(null);
+    try {
+      const account = await signInToMicrosoft();
+      setMicrosoftAccount(account.username);
+    } catch (e: any) {
+      setError(`Microsoft sign-in failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  const handleMicrosoftSignOut = async () => {
+    await signOutOfMicrosoft();
+    setMicrosoftAccount(null);
+    resetCalendarSelection();
+  };
+
+  const handleFilesSelected = async (files: File[]) => {
+    setError(null);
+    const spreadsheetFile = files.find(isSpreadsheetFile);
+    if (spreadsheetFile) {
+      // Spreadsheets are imported on their own, one file at a time.
+      try {
+        const rows = await readSpreadsheet(spreadsheetFile);
+        setScheduleFiles([]);
+        setSpreadsheet({ file: spreadsheetFile, rows });
+        setColumnMapping(guessColumnMapping(rows, selectedLayoutProfile));
+      } catch (e: any) {
+        console.error("Error reading spreadsheet:", e);
+        setError(
+          `Could not read the spreadsheet: ${e.message || "Unknown error"}`,
+        );
+      }
+      return;
     }
+    setSpreadsheet(null);
+    setColumnMapping(null);
+    setScheduleFiles((current) => [
+      ...current,
+      ...files.map((file) => ({
+        file,
+        previewUrl: URL.createObjectURL(file),
+      })),
+    ]);
+    // Don't auto-advance. Let the user click 'Extract'.
+  };
+
+  const handleRemoveFile = (index: number) => {
+    URL.revokeObjectURL(scheduleFiles[index].previewUrl);
+    setScheduleFiles(scheduleFiles.filter((_, i) => i !== index));
   };
 
-  const checkForConflicts = async (shifts: Shift[]) => {
-    if (!selectedCalendarId || shifts.length === 0)
-      return shifts.map((s) => ({ ...s, selected: true }));
+  const checkForConflicts = async (shifts: Shift[]): Promise<RosterDiff> => {
+    const unchecked = {
+      shifts: shifts.map((shift) => ({
+        ...shift,
+        isConflicting: false,
+        conflicts: undefined,
+        isAlreadyInCalendar: false,
+        changedFrom: undefined,
+        selected: !isSuspicious(shift),
+      })),
+      removedShifts: [],
+    };
+    if (!isCalendarConnected || !selectedCalendarId || shifts.length === 0)
+      return unchecked;
     setLoadingMessage("Checking for conflicting events...");
-    const minDate = shifts.reduce(
-      (min, s) => (s.date < min ? s.date : min),
-      shifts[0].date,
-    );
-    const maxDate = shifts.reduce(
-      (max, s) => (s.date > max ? s.date : max),
-      shifts[0].date,
-    );
+    const timeZone = getBrowserTimeZone();
+    const { timeMin, timeMax } = getConflictWindow(shifts, timeZone);
+    // A team calendar is full of other people's shifts; overlapping them is
+    // expected, so only the roster diff matters there.
+    const otherCalendarIds = isRosterMode
+      ? []
+      : conflictCalendarIds.filter(
+          (id) =>
+            id !== selectedCalendarId && calendars.some((c) => c.id === id),
+        );
     try {
-      const response = await window.gapi.client.calendar.events.list({
-        calendarId: selectedCalendarId,
-        timeMin: `${minDate}T00:00:00Z`,
-        timeMax: `${maxDate}T23:59:59Z`,
-        singleEvents: true,
-        orderBy: "startTime",
-      });
-      const existingEvents = response.result.items;
-      if (existingEvents.length === 0)
-        return shifts.map((shift) => ({ ...shift, selected: true }));
-      const updatedShifts = shifts.map((shift) => {
-        const shiftStart = new Date(
-          `${shift.date}T${shift.startTime}`,
-        ).getTime();
-        const shiftEnd = new Date(`${shift.date}T${shift.endTime}`).getTime();
-        const isConflicting = existingEvents.some((event: any) => {
-          const eventStart = new Date(event.start.dateTime).getTime();
-          const eventEnd = new Date(event.end.dateTime).getTime();
-          return shiftStart < eventEnd && shiftEnd > eventStart;
-        });
-        return { ...shift, isConflicting, selected: true };
+      const [existingEvents, busyIntervals] = await Promise.all([
+        calendarProvider.listEvents(selectedCalendarId, timeMin, timeMax),
+        otherCalendarIds.length > 0
+          ? calendarProvider.queryFreeBusy(otherCalendarIds, timeMin, timeMax)
+          : Promise.resolve([]),
+      ]);
+      const busyEntries = [
+        ...fromCalendarEvents(
+          existingEvents,
+          selectedCalendarId,
+          calendars.find((c) => c.id === selectedCalendarId)?.summary ||
+            "this calendar",
+        ),
+        ...fromBusyIntervals(busyIntervals, calendars),
+      ];
+      const diff = diffRoster(shifts, existingEvents, selectedLayoutProfile);
+      const updatedShifts = diff.shifts.map((shift) => {
+        const conflicts = isRosterMode
+          ? []
+          : findShiftConflicts(shift, busyEntries, timeZone);
+        // Shifts imported before are skipped unless the user opts back in.
+        return {
+          ...shift,
+          conflicts,
+          isConflicting: conflicts.length > 0,
+          selected: !shift.isAlreadyInCalendar && !isSuspicious(shift),
+        };
       });
-      return updatedShifts;
+      return { shifts: updatedShifts, removedShifts: diff.removedShifts };
     } catch (e: any) {
       console.error("Error checking for conflicts:", e);
       setError(
-        `Could not check for calendar conflicts: ${e.result?.error?.message || "Unknown error"}`,
+        `Could not check for calendar conflicts: ${e.result?.error?.message || e.message || "Unknown error"}`,
+      );
+      return unchecked;
+    }
+  };
+
+  // Shared by every import path: check the calendar, then open Review.
+  const showExtractionForReview = async ({
+    shifts: initialShifts,
+    yearInference,
+    needsAttention = [],
+  }: ExtractionResult) => {
+    if (initialShifts.length > 0 || needsAttention.length > 0) {
+      const diff = await checkForConflicts(
+        checkShiftConsistency(initialShifts, selectedLayoutProfile),
+      );
+      setExpandedConflictIndex(null);
+      setExtractedShifts(diff.shifts);
+      setRemovedShifts(diff.removedShifts);
+      setShiftsNeedingAttention(needsAttention);
+      setFixingShiftIndex(null);
+      setYearInference(yearInference);
+      setIsYearConfirmed(!yearInference.isAmbiguous);
+      setAppStep("REVIEW");
+    } else {
+      setError(
+        isRosterMode
+          ? "No shifts found on the roster. Please check the schedule layout or upload a different image."
+          : `No shifts found for ${extractionNames.map((n) => `"${n}"`).join(" or ")}. Please check the name spelling, add the spelling used on the roster, or upload a different image.`,
       );
-      return shifts.map((shift) => ({ ...shift, selected: true }));
+      setAppStep("UPLOAD");
     }
   };
 
   const handleExtractShifts = async () => {
-    if (!imageFile || !userName) return;
+    if (scheduleFiles.length === 0 || (!isRosterMode && !userName)) return;
     setIsLoading(true);
-    setLoadingMessage("AI is analyzing your schedule...");
+    setLoadingMessage(
+      extractionEngineId === "offline"
+        ? "Reading your schedule on this device..."
+        : "AI is analyzing your schedule...",
+    );
     setError(null);
     try {
-      const initialShifts = await extractShiftsFromImage(
-        imageFile,
-        userName,
-        import.meta.env.VITE_API_KEY,
-      );
-      if (initialShifts.length > 0) {
-        const shiftsWithConflicts = await checkForConflicts(initialShifts);
-        setExtractedShifts(shiftsWithConflicts);
-        setAppStep("REVIEW");
-      } else {
-        setError(
-          `No shifts found for "${userName}". Please check the name spelling or upload a different image.`,
+      const results: ExtractionResult[] = [];
+      for (const [i, { file }] of scheduleFiles.entries()) {
+        if (scheduleFiles.length > 1) {
+          setLoadingMessage(
+            `Analyzing file ${i + 1} of ${scheduleFiles.length}...`,
+          );
+        }
+        const result = await extractionEngine.extract(
+          file,
+          isRosterMode ? null : extractionNames,
+          selectedLayoutProfile,
+          setLoadingMessage,
         );
-        setAppStep("UPLOAD");
+        results.push({
+          ...result,
+          shifts: result.shifts.map((s) => ({ ...s, sourceFileIndex: i })),
+          needsAttention: result.needsAttention?.map((item) => ({
+            ...item,
+            shift: { ...item.shift, sourceFileIndex: i },
+          })),
+        });
       }
+      await showExtractionForReview(mergeExtractionResults(results));
     } catch (e: any) {
       setError(e.message || "An unknown error occurred during analysis.");
     } finally {
@@ -538,64 +2256,499 @@ export default function App() {
     }
   };
 
+  const handleImportSpreadsheet = async () => {
+    if (!spreadsheet || !columnMapping || (!isRosterMode && !userName)) return;
+    if (columnMapping.locationColumns.length === 0) {
+      setError("Choose at least one location column to import.");
+      return;
+    }
+    setIsLoading(true);
+    setLoadingMessage("Reading your spreadsheet...");
+    setError(null);
+    try {
+      await showExtractionForReview(
+        extractShiftsFromSpreadsheet(
+          spreadsheet.rows,
+          columnMapping,
+          isRosterMode ? null : extractionNames,
+          selectedLayoutProfile,
+          spreadsheet.file.name,
+          getReferenceDate(spreadsheet.file),
+        ),
+      );
+    } catch (e: any) {
+      setError(e.message || "An unknown error occurred during import.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const performCalendarWrite = async (write: CalendarWrite) => {
+    const calendarId = selectedCalendarId!;
+    const template = isRosterMode
+      ? withEmployeeNameInTitle(eventTemplate)
+      : eventTemplate;
+    switch (write.action) {
+      case "insert":
+        return calendarProvider.createEvent(
+          calendarId,
+          buildShiftEventInput(template, write.shift),
+        );
+      case "patch":
+        await calendarProvider.updateEvent(
+          calendarId,
+          write.eventId!,
+          buildShiftEventInput(template, write.shift),
+        );
+        return write.eventId;
+      case "delete":
+        await calendarProvider.deleteEvent(calendarId, write.eventId!);
+        return write.eventId;
+      case "deleteConflict":
+        await calendarProvider.deleteEvent(
+          write.conflict!.calendarId,
+          write.eventId!,
+        );
+        return write.eventId;
+      case "declineConflict":
+        await calendarProvider.declineEvent(
+          write.conflict!.calendarId,
+          write.eventId!,
+        );
+        return write.eventId;
+    }
+  };
+
+  // Saved after every run, so retried writes update the same record.
+  const saveImport = async (importId: string, results: CalendarWrite[]) => {
+    const existing = importRecords.find((r) => r.id === importId);
+    const record: ImportRecord = {
+      id: importId,
+      importedAt: existing?.importedAt ?? new Date().toISOString(),
+      mode: extractionMode,
+      calendarProviderId,
+      calendarId: selectedCalendarId!,
+      calendarName:
+        calendars.find((c) => c.id === selectedCalendarId)?.summary ||
+        selectedCalendarId!,
+      sources: spreadsheet
+        ? [spreadsheet.file.name]
+        : scheduleFiles.map(({ file }) => file.name),
+      thumbnail:
+        existing?.thumbnail ??
+        (scheduleFiles.length > 0
+          ? await createThumbnail(scheduleFiles[0].file)
+          : null),
+      shifts: existing?.shifts ?? extractedShifts,
+      createdEventIds: results
+        .filter((w) => w.action === "insert" && w.status === "done")
+        .map((w) => w.eventId!),
+    };
+    try {
+      if (!IS_DEMO_MODE) await saveImportRecord(record);
+      setImportRecords((records) => [
+        record,
+        ...records.filter((r) => r.id !== importId),
+      ]);
+    } catch (e: any) {
+      console.error("Error saving the import history:", e);
+      setError(`Could not save this import to History: ${e.message}`);
+    }
+  };
+
+  const runCalendarWrites = async (
+    writes: CalendarWrite[],
+    importId: string,
+  ) => {
+    setAppStep("ADDING");
+    setError(null);
+    setCurrentImportId(importId);
+    const results = await executeCalendarWrites(
+      writes,
+      performCalendarWrite,
+      (progress) => {
+        setCalendarWrites(progress);
+        setLoadingMessage(
+          `Made ${progress.filter((w) => w.status !== "pending").length} of ${progress.length} changes to your calendar...`,
+        );
+      },
+    );
+    await saveImport(importId, results);
+    // Team calendars hold other people's hours, not the user's.
+    if (!isRosterMode) {
+      setShiftHistory((history) => recordCalendarWrites(history, results));
+    }
+    // Mark what was written so going back to Review can't write it twice.
+    const written = results.filter((w) => w.status === "done");
+    setExtractedShifts((shifts) =>
+      shifts.map((shift) =>
+        written.some(
+          (w) =>
+            (w.action === "insert" || w.action === "patch") &&
+            w.shift === shift,
+        )
+          ? {
+              ...shift,
+              isAlreadyInCalendar: true,
+              changedFrom: undefined,
+              selected: false,
+            }
+          : shift,
+      ),
+    );
+    setRemovedShifts((removed) =>
+      removed.filter(
+        (shift) =>
+          !written.some((w) => w.action === "delete" && w.shift === shift),
+      ),
+    );
+    setAppStep("DONE");
+  };
+
   const handleAddShiftsToCalendar = async () => {
     if (!selectedCalendarId || extractedShifts.length === 0) return;
-    const shiftsToAdd = extractedShifts.filter((s) => s.selected);
-    if (shiftsToAdd.length === 0) {
+    const shiftsToWrite = extractedShifts.filter((s) => s.selected);
+    const shiftsToRemove = removedShifts.filter((s) => s.selected);
+    if (shiftsToWrite.length === 0 && shiftsToRemove.length === 0) {
       setError("No shifts selected to add.");
       setAppStep("REVIEW");
       return;
     }
-    setAppStep("ADDING");
-    setLoadingMessage(
-      `Adding ${shiftsToAdd.length} shifts to your calendar...`,
-    );
+    const writes: CalendarWrite[] = [
+      ...shiftsToWrite.map((shift) =>
+        shift.changedFrom
+          ? {
+              action: "patch" as const,
+              shift,
+              eventId: shift.changedFrom.eventId,
+            }
+          : { action: "insert" as const, shift },
+      ),
+      ...shiftsToRemove.map((shift) => ({
+        action: "delete" as const,
+        shift,
+        eventId: shift.eventId,
+      })),
+      // The same event can clash with several shifts; change it once.
+      ...shiftsToWrite
+        .flatMap((shift) =>
+          (shift.conflicts || [])
+            .filter((c) => c.action === "delete" || c.action === "decline")
+            .map((conflict) => ({
+              action:
+                conflict.action === "delete"
+                  ? ("deleteConflict" as const)
+                  : ("declineConflict" as const),
+              shift,
+              eventId: conflict.eventId,
+              conflict,
+            })),
+        )
+        .filter(
+          (write, i, all) =>
+            all.findIndex((w) => w.eventId === write.eventId) === i,
+        ),
+    ].map((write, i) => ({ ...write, id: `write-${i}`, status: "pending" }));
+    await runCalendarWrites(writes, crypto.randomUUID());
+  };
+
+  const handleRetryFailedWrites = () =>
+    runCalendarWrites(calendarWrites, currentImportId!);
+
+  const handleShowHistory = async () => {
     setError(null);
-    const promises = shiftsToAdd.map((shift) => {
-      const event = {
-        summary: `Work Shift: ${shift.location}`,
-        location: shift.location,
-        description: `Shift at ${shift.location}`,
-        start: {
-          dateTime: `${shift.date}T${shift.startTime}:00`,
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        },
-        end: {
-          dateTime: `${shift.date}T${shift.endTime}:00`,
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        },
-      };
-      return window.gapi.client.calendar.events.insert({
-        calendarId: selectedCalendarId,
-        resource: event,
-      });
-    });
     try {
-      await Promise.all(promises);
-      setAppStep("DONE");
+      if (!IS_DEMO_MODE) setImportRecords(await listImportRecords());
+      setAppStep("HISTORY");
     } catch (e: any) {
+      console.error("Error reading the import history:", e);
+      setError(`Could not read the import history: ${e.message}`);
+    }
+  };
+
+  // Events already deleted by hand count as undone.
+  const handleUndoImport = async (record: ImportRecord) => {
+    setUndoingImportId(record.id);
+    setError(null);
+    const remaining: string[] = [];
+    for (const eventId of record.createdEventIds) {
+      try {
+        await calendarProvider.deleteEvent(record.calendarId, eventId);
+      } catch (e: any) {
+        const status = e?.status ?? e?.result?.error?.code;
+        if (status === 404 || status === 410) continue;
+        console.error("Error deleting an imported event:", e);
+        remaining.push(eventId);
+      }
+    }
+    const deleted = record.createdEventIds.filter(
+      (id) => !remaining.includes(id),
+    );
+    setShiftHistory((history) =>
+      history.filter((entry) => !deleted.includes(entry.eventId)),
+    );
+    const updated: ImportRecord = {
+      ...record,
+      createdEventIds: remaining,
+      ...(remaining.length === 0 ? { undoneAt: new Date().toISOString() } : {}),
+    };
+    try {
+      if (!IS_DEMO_MODE) await saveImportRecord(updated);
+      setImportRecords((records) =>
+        records.map((r) => (r.id === record.id ? updated : r)),
+      );
+    } catch (e: any) {
+      console.error("Error saving the import history:", e);
+    }
+    if (remaining.length > 0) {
       setError(
-        `Failed to add events: ${e.result?.error?.message || "Unknown error"}`,
+        `${remaining.length} of ${record.createdEventIds.length} events could not be deleted. Please try again.`,
       );
-      setAppStep("REVIEW");
     }
+    setUndoingImportId(null);
+  };
+
+  const handleRemoveImport = async (record: ImportRecord) => {
+    setError(null);
+    try {
+      if (!IS_DEMO_MODE) await deleteImportRecord(record.id);
+      setImportRecords((records) => records.filter((r) => r.id !== record.id));
+    } catch (e: any) {
+      console.error("Error removing an import from history:", e);
+      setError(`Could not remove this import from History: ${e.message}`);
+    }
+  };
+
+  const handleDownloadIcs = () => {
+    const shifts = extractedShifts.filter((s) => s.selected);
+    if (shifts.length === 0) return;
+    const firstDate = shifts.reduce(
+      (min, s) => (s.date < min ? s.date : min),
+      shifts[0].date,
+    );
+    downloadFile(
+      `shifts-${firstDate}.ics`,
+      buildIcsCalendar(shifts, eventTemplate, userName),
+      "text/calendar;charset=utf-8",
+    );
+  };
+
+  // Manager mode: one calendar file per person, for them to import.
+  const handleDownloadEmployeeIcs = (
+    employeeName: string,
+    indices: number[],
+  ) => {
+    const shifts = indices
+      .map((i) => extractedShifts[i])
+      .filter((s) => s.selected);
+    if (shifts.length === 0) return;
+    const firstDate = shifts.reduce(
+      (min, s) => (s.date < min ? s.date : min),
+      shifts[0].date,
+    );
+    downloadFile(
+      `shifts-${toFileNamePart(employeeName)}-${firstDate}.ics`,
+      buildIcsCalendar(shifts, eventTemplate, employeeName),
+      "text/calendar;charset=utf-8",
+    );
+  };
+
+  const handleDownloadRosterCsv = () => {
+    const shifts = extractedShifts.filter((s) => s.selected);
+    if (shifts.length === 0) return;
+    const firstDate = shifts.reduce(
+      (min, s) => (s.date < min ? s.date : min),
+      shifts[0].date,
+    );
+    downloadFile(
+      `roster-${firstDate}.csv`,
+      buildRosterCsv(shifts),
+      "text/csv;charset=utf-8",
+    );
+  };
+
+  // Re-runs the conflict check after the list changed, keeping the user's
+  // selection; only the conflict flags are refreshed.
+  // Edits can settle or raise warnings on other shifts, so all are rechecked.
+  const recheckConflicts = async (updatedShifts: Shift[]) => {
+    const shifts = checkShiftConsistency(updatedShifts, selectedLayoutProfile);
+    setExtractedShifts(shifts);
+    const diff = await checkForConflicts(shifts);
+    setRemovedShifts(
+      diff.removedShifts.map((removed) => ({
+        ...removed,
+        selected:
+          removedShifts.find((r) => r.eventId === removed.eventId)?.selected ??
+          true,
+      })),
+    );
+    setExtractedShifts(
+      diff.shifts.map((shift, i) => ({
+        ...shift,
+        selected:
+          shift.isAlreadyInCalendar && !shifts[i].isAlreadyInCalendar
+            ? false
+            : shifts[i].selected,
+      })),
+    );
+  };
+
+  // Every date read from the roster moves to the new year together; open
+  // editors would save their old dates, so they are closed.
+  const handleChangeYear = async (year: number) => {
+    if (!yearInference) return;
+    setEditingShiftIndex(null);
+    setFixingShiftIndex(null);
+    const dated = applyScheduleYearToResult(
+      extractedShifts,
+      shiftsNeedingAttention,
+      year,
+    );
+    setYearInference({ ...yearInference, year });
+    setShiftsNeedingAttention(dated.needsAttention);
+    await recheckConflicts(dated.shifts);
+  };
+
+  const handleSaveShift = async (shift: Shift) => {
+    const updated =
+      editingShiftIndex === "new"
+        ? [...extractedShifts, { ...shift, selected: true }]
+        : extractedShifts.map((s, i) =>
+            // A shift the user has corrected is no longer in doubt.
+            i === editingShiftIndex ? { ...shift, confidence: undefined } : s,
+          );
+    setEditingShiftIndex(null);
+    await recheckConflicts(
+      [...updated].sort((a, b) =>
+        `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`),
+      ),
+    );
+  };
+
+  // A fixed shift joins the others, checked like one added by hand.
+  const handleFixShift = async (index: number, shift: Shift) => {
+    setShiftsNeedingAttention(
+      shiftsNeedingAttention.filter((_, i) => i !== index),
+    );
+    setFixingShiftIndex(null);
+    await recheckConflicts(
+      [
+        ...extractedShifts,
+        { ...shift, confidence: undefined, selected: true },
+      ].sort((a, b) =>
+        `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`),
+      ),
+    );
+  };
+
+  const handleDismissShift = (index: number) => {
+    setShiftsNeedingAttention(
+      shiftsNeedingAttention.filter((_, i) => i !== index),
+    );
+    setFixingShiftIndex(null);
+  };
+
+  const handleDeleteShift = async (index: number) => {
+    setEditingShiftIndex(null);
+    setHighlightedShiftIndex(null);
+    setExpandedConflictIndex(null);
+    await recheckConflicts(extractedShifts.filter((_, i) => i !== index));
+  };
+
+  const createBlankShift = (): Shift => {
+    const date =
+      extractedShifts.length > 0
+        ? extractedShifts[extractedShifts.length - 1].date
+        : new Date().toLocaleDateString("en-CA");
+    return {
+      date,
+      dayOfWeek: getDayName(selectedLayoutProfile, date),
+      startTime: "09:00",
+      endTime: "17:00",
+      location: selectedLayoutProfile.locations[0] || "",
+      selected: true,
+    };
   };
 
   const handleStartOver = () => {
-    setImageFile(null);
-    setImagePreview(null);
+    scheduleFiles.forEach(({ previewUrl }) => URL.revokeObjectURL(previewUrl));
+    setScheduleFiles([]);
+    setSpreadsheet(null);
+    setColumnMapping(null);
     setExtractedShifts([]);
+    setShiftsNeedingAttention([]);
+    setFixingShiftIndex(null);
+    setRemovedShifts([]);
+    setCalendarWrites([]);
+    setCurrentImportId(null);
+    setYearInference(null);
+    setIsYearConfirmed(true);
+    setEditingShiftIndex(null);
+    setHighlightedShiftIndex(null);
     setError(null);
     setIsLoading(false);
     setAppStep("CONFIG");
   };
 
+  const handleToggleRemovedShift = (eventId: string) =>
+    setRemovedShifts(
+      removedShifts.map((s) =>
+        s.eventId === eventId ? { ...s, selected: !s.selected } : s,
+      ),
+    );
+
   const handleToggleShift = (index: number) => {
     const newShifts = [...extractedShifts];
     newShifts[index].selected = !newShifts[index].selected;
+    // Taking a skipped shift back keeps it alongside what it clashed with.
+    if (newShifts[index].selected && newShifts[index].conflicts) {
+      newShifts[index].conflicts = newShifts[index].conflicts.map((c) =>
+        c.action === "skipShift" ? { ...c, action: "keepBoth" } : c,
+      );
+    }
     setExtractedShifts(newShifts);
   };
 
+  // Skipping is the shift's selection; the other actions run when adding.
+  const handleConflictActionChange = (
+    index: number,
+    conflictIndex: number,
+    action: ConflictAction,
+  ) =>
+    setExtractedShifts((shifts) =>
+      shifts.map((shift, i) => {
+        if (i !== index) return shift;
+        const conflicts = shift.conflicts!.map((c, j) =>
+          j === conflictIndex ? { ...c, action } : c,
+        );
+        return {
+          ...shift,
+          conflicts,
+          selected: !conflicts.some((c) => c.action === "skipShift"),
+        };
+      }),
+    );
+
+  const handleNewLayoutProfile = () =>
+    setEditingProfile(createLayoutProfile(selectedLayoutProfile));
+
+  const handleSaveLayoutProfile = (profile: LayoutProfile) => {
+    setLayoutProfiles((profiles) =>
+      profiles.some((p) => p.id === profile.id)
+        ? profiles.map((p) => (p.id === profile.id ? profile : p))
+        : [...profiles, profile],
+    );
+    setSelectedLayoutProfileId(profile.id);
+    setEditingProfile(null);
+  };
+
+  const handleDeleteLayoutProfile = (id: string) => {
+    setLayoutProfiles((profiles) => profiles.filter((p) => p.id !== id));
+    if (selectedLayoutProfileId === id)
+      setSelectedLayoutProfileId(DEFAULT_LAYOUT_PROFILE.id);
+    setEditingProfile(null);
+  };
+
   // --- Step Navigation Logic ---
   const wizardSteps = ["Configuration", "Upload", "Review"];
   const getStepIndex = (step: AppStep) => {
@@ -609,17 +2762,49 @@ export default function App() {
       case "ADDING":
         return 3;
       case "DONE":
+      case "HISTORY":
         return 3;
       default:
         return 0;
     }
   };
   const currentStepIndex = getStepIndex(appStep);
+  // Which name a shift matched only matters once there are aliases.
+  const showMatchedNames = !isRosterMode && extractionNames.length > 1;
+  // Manager mode groups the Review list by person.
+  const reviewGroups: { employeeName: string | null; indices: number[] }[] =
+    isRosterMode
+      ? groupShiftsByEmployee(extractedShifts)
+      : [{ employeeName: null, indices: extractedShifts.map((_, i) => i) }];
+  // Hours of the shifts about to be added.
+  const reviewHoursSummary = summarizeShiftPay(
+    calculateShiftPay(
+      extractedShifts.filter((s) => s.selected),
+      paySettings,
+    ),
+  );
+  const failedWrites = calendarWrites.filter((w) => w.status === "failed");
+  const countWrites = (action: CalendarWrite["action"]) =>
+    calendarWrites.filter((w) => w.action === action && w.status === "done")
+      .length;
   const handleBackToConfig = () => setAppStep("CONFIG");
+  const getUndoBlocker = (record: ImportRecord) => {
+    if (
+      record.calendarProviderId !== calendarProviderId ||
+      !isCalendarConnected
+    ) {
+      return "connect the calendar it went into to undo";
+    }
+    return null;
+  };
   const handleBackToUpload = () => setAppStep("UPLOAD");
 
+  // Connecting a calendar is optional: without it shifts can still be
+  // exported as .ics.
   const isConfigComplete =
-    userName.trim() !== "" && isSignedIn && selectedCalendarId !== null;
+    (isRosterMode || userName.trim() !== "") &&
+    (!isCalendarConnected || selectedCalendarId !== null) &&
+    editingProfile === null;
   const getSignInButtonText = () => {
     if (!isApiReady) return "Initializing Sign-In...";
     return "Sign in with Google";
@@ -635,6 +2820,12 @@ export default function App() {
         <p className="mt-3 text-lg sm:text-xl text-gray-400 max-w-2xl mx-auto">
           A simple 3-step wizard to get your schedule into your calendar.
         </p>
+        {IS_DEMO_MODE && (
+          <p className="mt-3 inline-block px-3 py-1 rounded-full text-xs font-semibold text-amber-200 bg-amber-900/40 border border-amber-700">
+            Demo mode: the calendar and extraction are simulated and nothing
+            leaves this browser.
+          </p>
+        )}
       </header>
 
       <AnimatePresence>
@@ -663,41 +2854,352 @@ export default function App() {
               <div className="space-y-6">
                 <div>
                   <label
-                    htmlFor="name"
+                    htmlFor="extraction-mode"
                     className="block text-sm font-medium text-gray-300 mb-2"
                   >
-                    Your Name (as it appears in the schedule)
+                    Whose Shifts
                   </label>
-                  <div className="relative rounded-lg shadow-sm">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <UserIcon />
+                  <select
+                    id="extraction-mode"
+                    name="extraction-mode"
+                    value={extractionMode}
+                    onChange={(e) =>
+                      setExtractionMode(e.target.value as ExtractionMode)
+                    }
+                    className="block w-full px-4 py-3 text-base bg-gray-700/50 border-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 rounded-lg text-gray-200"
+                  >
+                    <option value="personal">Just mine</option>
+                    <option value="roster">
+                      Everyone on the roster (for shift managers)
+                    </option>
+                  </select>
+                  {isRosterMode && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Every employee's shifts are extracted and grouped by
+                      person. Download a calendar file per employee or one CSV,
+                      or add them all to a shared team calendar with each name
+                      in the event title.
+                    </p>
+                  )}
+                </div>
+                {!isRosterMode && (
+                  <div>
+                    <label
+                      htmlFor="name"
+                      className="block text-sm font-medium text-gray-300 mb-2"
+                    >
+                      Your Name (as it appears in the schedule)
+                    </label>
+                    <div className="relative rounded-lg shadow-sm">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <UserIcon />
+                      </div>
+                      <input
+                        type="text"
+                        name="name"
+                        id="name"
+                        value={userName}
+                        onChange={(e) => setUserName(e.target.value)}
+                        className="focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-3 px-4 text-gray-200 placeholder-gray-500"
+                        placeholder="e.g., אלכס, Alex, or אברהם"
+                      />
                     </div>
-                    <input
-                      type="text"
-                      name="name"
-                      id="name"
-                      value={userName}
-                      onChange={(e) => setUserName(e.target.value)}
-                      className="focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-3 px-4 text-gray-200 placeholder-gray-500"
-                      placeholder="e.g., אלכס, Alex, or אברהם"
+                    <p className="mt-1 text-xs text-gray-500">
+                      Enter your name exactly as it appears on the schedule.
+                    </p>
+                    <NameAliasEditor
+                      userName={userName}
+                      aliases={nameAliases}
+                      onChange={setNameAliases}
                     />
                   </div>
+                )}
+                <div>
+                  <label
+                    htmlFor="layout-profile"
+                    className="block text-sm font-medium text-gray-300 mb-2"
+                  >
+                    Schedule Layout
+                  </label>
+                  {editingProfile ? (
+                    <LayoutProfileEditor
+                      key={editingProfile.id}
+                      profile={editingProfile}
+                      onSave={handleSaveLayoutProfile}
+                      onCancel={() => setEditingProfile(null)}
+                      onDelete={() =>
+                        handleDeleteLayoutProfile(editingProfile.id)
+                      }
+                    />
+                  ) : (
+                    <div className="space-y-2">
+                      <select
+                        id="layout-profile"
+                        name="layout-profile"
+                        value={selectedLayoutProfile.id}
+                        onChange={(e) =>
+                          setSelectedLayoutProfileId(e.target.value)
+                        }
+                        className="block w-full px-4 py-3 text-base bg-gray-700/50 border-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 rounded-lg text-gray-200"
+                      >
+                        {layoutProfiles.map((profile) => (
+                          <option key={profile.id} value={profile.id}>
+                            {profile.name}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500">
+                        Locations: {selectedLayoutProfile.locations.join(", ")}{" "}
+                        &middot; Dates: {selectedLayoutProfile.dateFormat}{" "}
+                        &middot; Language: {selectedLayoutProfile.language}
+                      </p>
+                      <div className="space-x-4">
+                        {selectedLayoutProfile.id !==
+                          DEFAULT_LAYOUT_PROFILE.id && (
+                          <button
+                            onClick={() =>
+                              setEditingProfile(selectedLayoutProfile)
+                            }
+                            className="text-sm text-gray-400 hover:text-indigo-400 transition-colors"
+                          >
+                            Edit layout
+                          </button>
+                        )}
+                        <button
+                          onClick={handleNewLayoutProfile}
+                          className="text-sm text-gray-400 hover:text-indigo-400 transition-colors"
+                        >
+                          New layout from this one
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label
+                    htmlFor="extraction-engine"
+                    className="block text-sm font-medium text-gray-300 mb-2"
+                  >
+                    Extraction Engine
+                  </label>
+                  <select
+                    id="extraction-engine"
+                    name="extraction-engine"
+                    value={extractionEngineId}
+                    onChange={(e) =>
+                      setExtractionEngineId(
+                        e.target.value as ExtractionEngineId,
+                      )
+                    }
+                    className="block w-full px-4 py-3 text-base bg-gray-700/50 border-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 rounded-lg text-gray-200"
+                  >
+                    {EXTRACTION_ENGINES.map((engine) => (
+                      <option key={engine.id} value={engine.id}>
+                        {engine.name}
+                      </option>
+                    ))}
+                  </select>
+                  {extractionEngineId === "openai" && (
+                    <div className="mt-2 space-y-2">
+                      <input
+                        type="url"
+                        value={openAiSettings.baseUrl}
+                        onChange={(e) =>
+                          setOpenAiSettings({
+                            ...openAiSettings,
+                            baseUrl: e.target.value,
+                          })
+                        }
+                        className="focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-3 px-4 text-gray-200 placeholder-gray-500"
+                        placeholder="Base URL, e.g. http://localhost:11434/v1"
+                      />
+                      <input
+                        type="text"
+                        value={openAiSettings.model}
+                        onChange={(e) =>
+                          setOpenAiSettings({
+                            ...openAiSettings,
+                            model: e.target.value,
+                          })
+                        }
+                        className="focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-3 px-4 text-gray-200 placeholder-gray-500"
+                        placeholder="Vision model, e.g. qwen2.5vl or gpt-4o-mini"
+                      />
+                      <input
+                        type="password"
+                        value={openAiSettings.apiKey}
+                        onChange={(e) =>
+                          setOpenAiSettings({
+                            ...openAiSettings,
+                            apiKey: e.target.value,
+                          })
+                        }
+                        className="focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-3 px-4 text-gray-200 placeholder-gray-500"
+                        placeholder="API key (leave empty for local servers)"
+                        autoComplete="off"
+                      />
+                    </div>
+                  )}
                   <p className="mt-1 text-xs text-gray-500">
-                    Enter your name exactly as it appears on the schedule.
+                    {extractionEngineId === "gemini" &&
+                      "Images are sent to our server and analyzed with Google Gemini."}
+                    {extractionEngineId === "openai" &&
+                      "Images are sent straight from your browser to this endpoint, which must allow requests from this site (CORS)."}
+                    {extractionEngineId === "offline" &&
+                      "Text recognition runs in your browser and the image is never uploaded. Works best on clear screenshots with ruled tables."}
+                    {extractionEngineId === "demo" &&
+                      "Replays results recorded for the sample roster, which you can add in the Upload step."}
                   </p>
                 </div>
+                <details>
+                  <summary className="cursor-pointer text-sm font-medium text-gray-300 hover:text-indigo-400 transition-colors">
+                    Calendar Event Settings
+                  </summary>
+                  <div className="mt-2">
+                    <EventTemplateSettings
+                      template={eventTemplate}
+                      locations={selectedLayoutProfile.locations}
+                      onChange={setEventTemplate}
+                    />
+                  </div>
+                </details>
+                <details>
+                  <summary className="cursor-pointer text-sm font-medium text-gray-300 hover:text-indigo-400 transition-colors">
+                    Pay Settings
+                  </summary>
+                  <div className="mt-2">
+                    <PaySettingsEditor
+                      settings={paySettings}
+                      locations={selectedLayoutProfile.locations}
+                      onChange={setPaySettings}
+                    />
+                  </div>
+                </details>
+                {shiftHistory.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer text-sm font-medium text-gray-300 hover:text-indigo-400 transition-colors">
+                      Monthly Hours Report
+                    </summary>
+                    <div className="mt-2">
+                      <MonthlyReportPanel
+                        history={shiftHistory}
+                        settings={paySettings}
+                        onError={setError}
+                      />
+                    </div>
+                  </details>
+                )}
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Google Calendar Connection
+                  <label
+                    htmlFor="calendar-provider"
+                    className="block text-sm font-medium text-gray-300 mb-2"
+                  >
+                    {isRosterMode
+                      ? "Team Calendar (optional)"
+                      : "Calendar Connection"}
                   </label>
-                  {!isSignedIn ? (
-                    <button
-                      onClick={handleSignIn}
-                      disabled={!isApiReady}
-                      className="w-full flex items-center justify-center px-6 py-3 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105"
-                    >
-                      {getSignInButtonText()}
-                    </button>
+                  <select
+                    id="calendar-provider"
+                    name="calendar-provider"
+                    value={calendarProviderId}
+                    onChange={(e) =>
+                      handleChangeCalendarProvider(
+                        e.target.value as CalendarProviderId,
+                      )
+                    }
+                    className="block w-full px-4 py-3 text-base bg-gray-700/50 border-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 rounded-lg text-gray-200 mb-3"
+                  >
+                    {CALENDAR_PROVIDERS.map((provider) => (
+                      <option key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </option>
+                    ))}
+                  </select>
+                  {!isCalendarConnected ? (
+                    <>
+                      {calendarProviderId === "google" && (
+                        <button
+                          onClick={handleSignIn}
+                          disabled={!isApiReady}
+                          className="w-full flex items-center justify-center px-6 py-3 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105"
+                        >
+                          {getSignInButtonText()}
+                        </button>
+                      )}
+                      {calendarProviderId === "caldav" && (
+                        <div className="space-y-2">
+                          <input
+                            type="url"
+                            value={caldavSettings.serverUrl}
+                            onChange={(e) =>
+                              setCaldavSettings({
+                                ...caldavSettings,
+                                serverUrl: e.target.value,
+                              })
+                            }
+                            className="focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-3 px-4 text-gray-200 placeholder-gray-500"
+                            placeholder="Calendar home URL, e.g. http://localhost:5232/alex/"
+                          />
+                          <input
+                            type="text"
+                            value={caldavSettings.username}
+                            onChange={(e) =>
+                              setCaldavSettings({
+                                ...caldavSettings,
+                                username: e.target.value,
+                              })
+                            }
+                            className="focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-3 px-4 text-gray-200 placeholder-gray-500"
+                            placeholder="Username"
+                            autoComplete="username"
+                          />
+                          <input
+                            type="password"
+                            value={caldavSettings.password}
+                            onChange={(e) =>
+                              setCaldavSettings({
+                                ...caldavSettings,
+                                password: e.target.value,
+                              })
+                            }
+                            className="focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm bg-gray-700/50 border-gray-600 rounded-lg py-3 px-4 text-gray-200 placeholder-gray-500"
+                            placeholder="Password or app password"
+                            autoComplete="current-password"
+                          />
+                          <button
+                            onClick={handleConnectCalDav}
+                            disabled={
+                              !caldavSettings.serverUrl.trim() ||
+                              !caldavSettings.username.trim() ||
+                              isLoading
+                            }
+                            className="w-full flex items-center justify-center px-6 py-3 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105"
+                          >
+                            {isLoading ? loadingMessage : "Connect"}
+                          </button>
+                          <p className="text-xs text-gray-500">
+                            The server must allow requests from this site
+                            (CORS). The password is only kept until you close
+                            the browser.
+                          </p>
+                        </div>
+                      )}
+                      {calendarProviderId === "microsoft" && (
+                        <button
+                          onClick={handleMicrosoftSignIn}
+                          disabled={!isMicrosoftSignInConfigured()}
+                          className="w-full flex items-center justify-center px-6 py-3 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105"
+                        >
+                          {isMicrosoftSignInConfigured()
+                            ? "Sign in with Microsoft"
+                            : "Microsoft sign-in is not configured"}
+                        </button>
+                      )}
+                      <p className="mt-1 text-xs text-gray-500">
+                        Using another calendar app? Continue without connecting
+                        and download an .ics file in the Review step.
+                      </p>
+                    </>
                   ) : (
                     <div className="space-y-3">
                       <select
@@ -709,26 +3211,91 @@ export default function App() {
                         disabled={calendars.length === 0}
                       >
                         {calendars.length > 0 ? (
-                          calendars.map((cal) => (
-                            <option key={cal.id} value={cal.id}>
-                              {cal.summary}
-                            </option>
-                          ))
+                          calendars
+                            .filter((cal) => cal.canWrite)
+                            .map((cal) => (
+                              <option key={cal.id} value={cal.id}>
+                                {cal.summary}
+                              </option>
+                            ))
                         ) : (
                           <option>Loading calendars...</option>
                         )}
                       </select>
-                      <button
-                        onClick={handleSignOut}
-                        className="text-sm text-gray-400 hover:text-indigo-400 transition-colors"
-                      >
-                        Sign out
-                      </button>
+                      {!isRosterMode &&
+                        calendars.some((c) => c.id !== selectedCalendarId) && (
+                          <fieldset>
+                            <legend className="text-sm text-gray-400 mb-1">
+                              Also check for conflicts in
+                            </legend>
+                            <div className="space-y-1 max-h-40 overflow-y-auto">
+                              {calendars
+                                .filter((cal) => cal.id !== selectedCalendarId)
+                                .map((cal) => (
+                                  <label
+                                    key={cal.id}
+                                    className="flex items-center gap-2 text-sm text-gray-300"
+                                  >
+                                    <input
+                                      type="checkbox"
+                                      checked={conflictCalendarIds.includes(
+                                        cal.id,
+                                      )}
+                                      onChange={(e) =>
+                                        setConflictCalendarIds(
+                                          e.target.checked
+                                            ? [...conflictCalendarIds, cal.id]
+                                            : conflictCalendarIds.filter(
+                                                (id) => id !== cal.id,
+                                              ),
+                                        )
+                                      }
+                                      className="accent-indigo-500"
+                                    />
+                                    {cal.summary}
+                                    {!cal.canWrite && (
+                                      <span className="text-xs text-gray-500">
+                                        (read-only)
+                                      </span>
+                                    )}
+                                  </label>
+                                ))}
+                            </div>
+                          </fieldset>
+                        )}
+                      {calendarProviderId === "microsoft" &&
+                        microsoftAccount && (
+                          <p className="text-xs text-gray-500">
+                            Signed in as {microsoftAccount}
+                          </p>
+                        )}
+                      {calendarProviderId !== "demo" && (
+                        <button
+                          onClick={
+                            {
+                              google: handleSignOut,
+                              caldav: handleDisconnectCalDav,
+                              microsoft: handleMicrosoftSignOut,
+                            }[calendarProviderId]
+                          }
+                          className="text-sm text-gray-400 hover:text-indigo-400 transition-colors"
+                        >
+                          {calendarProviderId === "caldav"
+                            ? "Disconnect"
+                            : "Sign out"}
+                        </button>
+                      )}
                     </div>
                   )}
                 </div>
               </div>
-              <div className="flex justify-end pt-4 mt-6 border-t border-white/10">
+              <div className="flex flex-col sm:flex-row justify-between items-center pt-4 mt-6 border-t border-white/10">
+                <button
+                  onClick={handleShowHistory}
+                  className="text-sm font-medium text-gray-400 hover:text-indigo-400 transition-colors mb-4 sm:mb-0"
+                >
+                  Import history
+                </button>
                 <motion.button
                   disabled={!isConfigComplete}
                   onClick={() => setAppStep("UPLOAD")}
@@ -746,27 +3313,77 @@ export default function App() {
           {appStep === "UPLOAD" && (
             <StepCard key="upload">
               <FileUpload
-                onFileSelect={handleFileSelected}
+                onFilesSelect={handleFilesSelected}
                 disabled={isLoading}
               />
-              {imagePreview && (
+              {IS_DEMO_MODE && (
+                <button
+                  onClick={() => handleFilesSelected(getSampleRosterFiles())}
+                  disabled={isLoading}
+                  className="mt-3 text-sm font-medium text-gray-400 hover:text-indigo-400 transition-colors disabled:opacity-50"
+                >
+                  Use the sample roster
+                </button>
+              )}
+              {scheduleFiles.length > 0 && (
                 <motion.div
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   className="mt-6"
                 >
                   <p className="text-sm font-medium text-gray-300 mb-3">
-                    Image Preview:
+                    {scheduleFiles.length === 1
+                      ? "Image Preview:"
+                      : `${scheduleFiles.length} files to analyze:`}
                   </p>
-                  <div className="rounded-lg overflow-hidden shadow-lg">
-                    <img
-                      src={imagePreview}
-                      alt="Schedule preview"
-                      className="w-full h-auto max-h-80 object-contain bg-gray-900"
-                    />
+                  <div
+                    className={`grid gap-3 ${scheduleFiles.length > 1 ? "grid-cols-2" : "grid-cols-1"}`}
+                  >
+                    {scheduleFiles.map(({ file, previewUrl }, index) => (
+                      <div
+                        key={previewUrl}
+                        className="relative rounded-lg overflow-hidden shadow-lg bg-gray-900"
+                      >
+                        {file.type === "application/pdf" ? (
+                          <div className="h-40 flex flex-col items-center justify-center text-gray-400">
+                            <span className="text-3xl">📄</span>
+                            <span className="mt-2 text-xs font-semibold">
+                              PDF
+                            </span>
+                          </div>
+                        ) : (
+                          <img
+                            src={previewUrl}
+                            alt="Schedule preview"
+                            className={`w-full h-auto object-contain bg-gray-900 ${scheduleFiles.length > 1 ? "max-h-40" : "max-h-80"}`}
+                          />
+                        )}
+                        <div className="absolute bottom-0 inset-x-0 flex items-center justify-between px-2 py-1 bg-gray-950/70">
+                          <span className="text-xs text-gray-300 truncate">
+                            {file.name}
+                          </span>
+                          <button
+                            onClick={() => handleRemoveFile(index)}
+                            disabled={isLoading}
+                            className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                            title="Remove file"
+                          >
+                            <TrashIcon />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </motion.div>
               )}
+              {spreadsheet && columnMapping && (
+                <SpreadsheetMappingEditor
+                  fileName={spreadsheet.file.name}
+                  rows={spreadsheet.rows}
+                  mapping={columnMapping}
+                  onChange={setColumnMapping}
+                />
+              )}
               <div className="flex justify-between items-center pt-4 mt-6 border-t border-white/10">
                 <button
                   onClick={handleBackToConfig}
@@ -774,10 +3391,10 @@ export default function App() {
                 >
                   &larr; Back
                 </button>
-                {imageFile && (
+                {scheduleFiles.length > 0 && (
                   <motion.button
                     onClick={handleExtractShifts}
-                    disabled={isLoading || !imageFile}
+                    disabled={isLoading}
                     variants={buttonHoverTapVariants}
                     whileHover="hover"
                     whileTap="tap"
@@ -793,6 +3410,25 @@ export default function App() {
                     )}
                   </motion.button>
                 )}
+                {spreadsheet && (
+                  <motion.button
+                    onClick={handleImportSpreadsheet}
+                    disabled={isLoading || !columnMapping}
+                    variants={buttonHoverTapVariants}
+                    whileHover="hover"
+                    whileTap="tap"
+                    className="w-full sm:w-auto flex items-center justify-center px-6 py-3 border border-transparent rounded-lg shadow-lg text-base font-medium text-white bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  >
+                    {isLoading ? (
+                      <>
+                        <Spinner />
+                        <span className="ml-3">{loadingMessage}</span>
+                      </>
+                    ) : (
+                      <>📊 Import Shifts</>
+                    )}
+                  </motion.button>
+                )}
               </div>
             </StepCard>
           )}
@@ -804,82 +3440,495 @@ export default function App() {
                   <p className="text-sm text-green-300">
                     Found{" "}
                     <span className="font-bold">{extractedShifts.length}</span>{" "}
-                    shifts for <span className="font-semibold">{userName}</span>
+                    shifts for{" "}
+                    {isRosterMode ? (
+                      <>{reviewGroups.length} people</>
+                    ) : (
+                      <span className="font-semibold">{userName}</span>
+                    )}
                     . Uncheck any you don't want to add.
                   </p>
+                  {extractedShifts.some((s) => s.isAlreadyInCalendar) && (
+                    <p className="mt-1 text-xs text-green-400">
+                      {
+                        extractedShifts.filter((s) => s.isAlreadyInCalendar)
+                          .length
+                      }{" "}
+                      of them are already in your calendar from an earlier
+                      import and will be skipped unless you check them.
+                    </p>
+                  )}
+                  {yearInference?.crossesNewYear && (
+                    <p className="mt-1 text-xs text-green-400">
+                      This roster runs from December {yearInference.year} into
+                      January {yearInference.year + 1}.
+                    </p>
+                  )}
+                  {extractedShifts.some((s) => s.warnings) && (
+                    <p className="mt-1 text-xs text-green-400">
+                      {extractedShifts.filter((s) => s.warnings).length} of them
+                      don't add up with the rest of the roster; see the warnings
+                      below. Those at odds with their day or with other shifts
+                      are unchecked.
+                    </p>
+                  )}
+                  {extractedShifts.some(isLowConfidence) && (
+                    <p className="mt-1 text-xs text-green-400">
+                      {extractedShifts.filter(isLowConfidence).length} of them
+                      were hard to read and are unchecked. Hover over a shift to
+                      see where it was read from.
+                    </p>
+                  )}
                 </div>
-                <div className="max-h-80 overflow-y-auto pr-2 -mr-2">
-                  <motion.ul
-                    className="space-y-3"
-                    variants={listVariants}
-                    initial="hidden"
-                    animate="visible"
-                  >
-                    {extractedShifts.map((shift, index) => (
-                      <motion.li
-                        key={index}
-                        variants={listItemVariants}
-                        whileHover={{
-                          scale: 1.02,
-                          transition: { duration: 0.2 },
-                        }}
-                        className={`p-4 rounded-lg border flex items-center space-x-4 transition-all duration-300 cursor-pointer ${shift.isConflicting ? "bg-red-900/50 border-red-700" : "bg-gray-900/50 border-gray-700"}`}
-                        onClick={() => handleToggleShift(index)}
+                <SourcePreview
+                  files={scheduleFiles}
+                  shift={
+                    highlightedShiftIndex !== null
+                      ? extractedShifts[highlightedShiftIndex] || null
+                      : null
+                  }
+                />
+                {yearInference && !isYearConfirmed && (
+                  <div className="bg-yellow-900/40 border border-yellow-700 p-4 rounded-lg space-y-3">
+                    <div className="flex items-center">
+                      <ExclamationIcon className="h-5 w-5 text-yellow-400 flex-shrink-0" />
+                      <p className="ml-3 text-sm text-yellow-200">
+                        We couldn't tell for sure which year this roster is for.
+                        Please confirm the year before adding shifts.
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <select
+                        value={yearInference.year}
+                        onChange={(e) =>
+                          handleChangeYear(Number(e.target.value))
+                        }
+                        className="px-3 py-2 text-sm bg-gray-700/50 border-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-lg text-gray-200"
                       >
-                        <div className="flex-shrink-0">
-                          <div
-                            className={`w-6 h-6 rounded-md flex items-center justify-center transition-all duration-200 ${shift.selected ? "bg-indigo-500 shadow-lg" : "bg-gray-700 border-2 border-gray-600"}`}
+                        {yearInference.candidates.map((year) => (
+                          <option key={year} value={year}>
+                            {yearInference.crossesNewYear
+                              ? `${year} – ${year + 1}`
+                              : year}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setIsYearConfirmed(true)}
+                        className="px-4 py-2 rounded-lg text-sm font-medium text-yellow-200 bg-yellow-800/50 hover:bg-yellow-700/50 transition-all duration-200"
+                      >
+                        Confirm year
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {shiftsNeedingAttention.length > 0 && (
+                  <div className="bg-amber-900/30 border border-amber-700 p-4 rounded-lg space-y-3">
+                    <div className="flex items-center">
+                      <ExclamationIcon className="h-5 w-5 text-amber-400 flex-shrink-0" />
+                      <p className="ml-3 text-sm text-amber-200">
+                        {shiftsNeedingAttention.length === 1
+                          ? "1 shift needs attention"
+                          : `${shiftsNeedingAttention.length} shifts need attention`}
+                        : part of it couldn't be read. Fix it to add it with the
+                        others, or dismiss it.
+                      </p>
+                    </div>
+                    <ul className="space-y-2">
+                      {shiftsNeedingAttention.map(({ shift, problem }, i) =>
+                        fixingShiftIndex === i ? (
+                          <li key={i}>
+                            <ShiftEditor
+                              shift={shift}
+                              profile={selectedLayoutProfile}
+                              showEmployeeName={isRosterMode}
+                              onSave={(fixed) => handleFixShift(i, fixed)}
+                              onCancel={() => setFixingShiftIndex(null)}
+                            />
+                          </li>
+                        ) : (
+                          <li
+                            key={i}
+                            className="p-3 rounded-lg border border-amber-800/60 bg-gray-900/50 flex items-center justify-between gap-3"
                           >
-                            <AnimatePresence>
-                              {shift.selected && (
-                                <motion.svg
-                                  initial={{ scale: 0, rotate: -90 }}
-                                  animate={{ scale: 1, rotate: 0 }}
-                                  exit={{ scale: 0, rotate: 90 }}
-                                  transition={{
-                                    type: "spring",
-                                    stiffness: 400,
-                                    damping: 15,
-                                  }}
-                                  className="w-4 h-4 text-white"
-                                  fill="none"
-                                  viewBox="0 0 24 24"
-                                  stroke="currentColor"
-                                >
-                                  <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth="3"
-                                    d="M5 13l4 4L19 7"
-                                  />
-                                </motion.svg>
+                            <div className="min-w-0">
+                              <p className="text-sm text-gray-200">
+                                {shift.employeeName &&
+                                  `${shift.employeeName}: `}
+                                {shift.date || "?"}
+                                {shift.dayOfWeek &&
+                                  ` (${shift.dayOfWeek})`}{" "}
+                                {shift.startTime || "?"} -{" "}
+                                {shift.endTime || "?"} at{" "}
+                                {shift.location || "?"}
+                              </p>
+                              <p className="text-xs text-amber-300">
+                                {problem}
+                              </p>
+                              {shift.source && (
+                                <p className="text-xs text-gray-500">
+                                  from {shift.source}
+                                </p>
                               )}
-                            </AnimatePresence>
+                            </div>
+                            <div className="flex-shrink-0 flex space-x-3">
+                              <button
+                                onClick={() => setFixingShiftIndex(i)}
+                                className="text-sm font-medium text-amber-300 hover:text-amber-200 transition-colors"
+                              >
+                                Fix
+                              </button>
+                              <button
+                                onClick={() => handleDismissShift(i)}
+                                className="text-sm text-gray-400 hover:text-red-400 transition-colors"
+                              >
+                                Dismiss
+                              </button>
+                            </div>
+                          </li>
+                        ),
+                      )}
+                    </ul>
+                  </div>
+                )}
+                <div className="max-h-80 overflow-y-auto pr-2 -mr-2">
+                  <div className="space-y-5">
+                    {reviewGroups.map((group) => (
+                      <div key={group.employeeName ?? "all"}>
+                        {group.employeeName !== null && (
+                          <div className="flex items-center justify-between mb-2">
+                            <p className="text-sm font-semibold text-gray-200">
+                              {group.employeeName || "No name"}{" "}
+                              <span className="font-normal text-gray-500">
+                                &middot; {group.indices.length} shifts
+                              </span>
+                            </p>
+                            <button
+                              onClick={() =>
+                                handleDownloadEmployeeIcs(
+                                  group.employeeName!,
+                                  group.indices,
+                                )
+                              }
+                              disabled={
+                                !group.indices.some(
+                                  (i) => extractedShifts[i].selected,
+                                ) ||
+                                !isYearConfirmed ||
+                                editingShiftIndex !== null
+                              }
+                              className="text-xs font-medium text-gray-400 hover:text-indigo-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              ⬇ .ics
+                            </button>
                           </div>
-                        </div>
-                        <div className="flex-grow">
-                          <p
-                            className={`font-semibold ${shift.isConflicting ? "text-red-300" : "text-gray-200"}`}
-                          >
-                            {shift.date} ({shift.dayOfWeek})
-                          </p>
+                        )}
+                        <motion.ul
+                          className="space-y-3"
+                          variants={listVariants}
+                          initial="hidden"
+                          animate="visible"
+                        >
+                          {group.indices.map((index) => {
+                            const shift = extractedShifts[index];
+                            return editingShiftIndex === index ? (
+                              <li key={index}>
+                                <ShiftEditor
+                                  shift={shift}
+                                  profile={selectedLayoutProfile}
+                                  showEmployeeName={isRosterMode}
+                                  onSave={handleSaveShift}
+                                  onCancel={() => setEditingShiftIndex(null)}
+                                />
+                              </li>
+                            ) : (
+                              <motion.li
+                                key={index}
+                                variants={listItemVariants}
+                                whileHover={{
+                                  scale: 1.02,
+                                  transition: { duration: 0.2 },
+                                }}
+                                className={`p-4 rounded-lg border flex items-center space-x-4 transition-all duration-300 cursor-pointer ${shift.isConflicting ? "bg-red-900/50 border-red-700" : "bg-gray-900/50 border-gray-700"} ${highlightedShiftIndex === index ? "ring-2 ring-yellow-400/60" : ""}`}
+                                onClick={() => {
+                                  setHighlightedShiftIndex(index);
+                                  handleToggleShift(index);
+                                }}
+                                onMouseEnter={() =>
+                                  setHighlightedShiftIndex(index)
+                                }
+                              >
+                                <div className="flex-shrink-0">
+                                  <div
+                                    className={`w-6 h-6 rounded-md flex items-center justify-center transition-all duration-200 ${shift.selected ? "bg-indigo-500 shadow-lg" : "bg-gray-700 border-2 border-gray-600"}`}
+                                  >
+                                    <AnimatePresence>
+                                      {shift.selected && (
+                                        <motion.svg
+                                          initial={{ scale: 0, rotate: -90 }}
+                                          animate={{ scale: 1, rotate: 0 }}
+                                          exit={{ scale: 0, rotate: 90 }}
+                                          transition={{
+                                            type: "spring",
+                                            stiffness: 400,
+                                            damping: 15,
+                                          }}
+                                          className="w-4 h-4 text-white"
+                                          fill="none"
+                                          viewBox="0 0 24 24"
+                                          stroke="currentColor"
+                                        >
+                                          <path
+                                            strokeLinecap="round"
+                                            strokeLinejoin="round"
+                                            strokeWidth="3"
+                                            d="M5 13l4 4L19 7"
+                                          />
+                                        </motion.svg>
+                                      )}
+                                    </AnimatePresence>
+                                  </div>
+                                </div>
+                                <div className="flex-grow">
+                                  <p
+                                    className={`font-semibold ${shift.isConflicting ? "text-red-300" : "text-gray-200"}`}
+                                  >
+                                    {shift.date} ({shift.dayOfWeek})
+                                  </p>
+                                  <p
+                                    className={`text-sm ${shift.isConflicting ? "text-red-400" : "text-gray-400"}`}
+                                  >
+                                    {shift.startTime} - {shift.endTime}
+                                    {shift.endsNextDay && (
+                                      <span
+                                        className="ml-1 text-xs font-semibold text-purple-300"
+                                        title={`Ends on ${getShiftEndDate(shift)}`}
+                                      >
+                                        +1 day
+                                      </span>
+                                    )}{" "}
+                                    at{" "}
+                                    <span className="font-medium text-indigo-400">
+                                      {shift.location}
+                                    </span>
+                                    {shift.isConflicting && (
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          setExpandedConflictIndex(
+                                            expandedConflictIndex === index
+                                              ? null
+                                              : index,
+                                          );
+                                        }}
+                                        className="font-bold ml-2 text-yellow-400 hover:text-yellow-300"
+                                        aria-expanded={
+                                          expandedConflictIndex === index
+                                        }
+                                      >
+                                        (Conflict
+                                        {shift.conflicts &&
+                                        shift.conflicts.length > 1
+                                          ? `s: ${shift.conflicts.length}`
+                                          : ""}{" "}
+                                        {expandedConflictIndex === index
+                                          ? "▴"
+                                          : "▾"}
+                                        )
+                                      </button>
+                                    )}
+                                    {shift.isAlreadyInCalendar && (
+                                      <span className="font-bold ml-2 text-green-400">
+                                        (Already in calendar)
+                                      </span>
+                                    )}
+                                    {isLowConfidence(shift) && (
+                                      <span
+                                        className="font-bold ml-2 text-amber-300"
+                                        title={`Confidence ${Math.round(shift.confidence! * 100)}%`}
+                                      >
+                                        (Low confidence — please check)
+                                      </span>
+                                    )}
+                                    {shift.changedFrom && (
+                                      <span className="font-bold ml-2 text-amber-300">
+                                        (Changed — was{" "}
+                                        {shift.changedFrom.startTime} -{" "}
+                                        {shift.changedFrom.endTime} at{" "}
+                                        {shift.changedFrom.location})
+                                      </span>
+                                    )}
+                                  </p>
+                                  {shift.warnings?.map(({ message }, i) => (
+                                    <p
+                                      key={i}
+                                      className="text-xs text-amber-300 mt-1"
+                                    >
+                                      ⚠ {message}
+                                    </p>
+                                  ))}
+                                  {expandedConflictIndex === index &&
+                                    shift.conflicts && (
+                                      <ul
+                                        className="mt-2 space-y-2"
+                                        onClick={(e) => e.stopPropagation()}
+                                      >
+                                        {shift.conflicts.map((conflict, i) => (
+                                          <li
+                                            key={i}
+                                            className="flex flex-wrap items-center justify-between gap-2 text-xs text-yellow-300/90"
+                                          >
+                                            <span>
+                                              {conflict.summary
+                                                ? `“${conflict.summary}” in ${conflict.calendarName}`
+                                                : `Busy time in ${conflict.calendarName}`}
+                                              ,{" "}
+                                              {formatConflictTime(
+                                                conflict,
+                                                getBrowserTimeZone(),
+                                              )}
+                                            </span>
+                                            <select
+                                              value={conflict.action}
+                                              onChange={(e) =>
+                                                handleConflictActionChange(
+                                                  index,
+                                                  i,
+                                                  e.target
+                                                    .value as ConflictAction,
+                                                )
+                                              }
+                                              className="px-2 py-1 text-xs bg-gray-700/50 border-gray-600 rounded-md text-gray-200"
+                                            >
+                                              {getConflictActions(conflict).map(
+                                                (action) => (
+                                                  <option
+                                                    key={action}
+                                                    value={action}
+                                                  >
+                                                    {
+                                                      CONFLICT_ACTION_LABELS[
+                                                        action
+                                                      ]
+                                                    }
+                                                  </option>
+                                                ),
+                                              )}
+                                            </select>
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    )}
+                                  {shift.coworkers &&
+                                    shift.coworkers.length > 0 && (
+                                      <p className="text-xs text-gray-400 mt-1">
+                                        with {shift.coworkers.join(", ")}
+                                      </p>
+                                    )}
+                                  {shift.source && (
+                                    <p className="text-xs text-gray-500 mt-1">
+                                      from {shift.source}
+                                    </p>
+                                  )}
+                                  {showMatchedNames && shift.matchedName && (
+                                    <p className="text-xs text-gray-500">
+                                      matched{" "}
+                                      <span className="text-gray-400">
+                                        &ldquo;{shift.matchedName}&rdquo;
+                                      </span>
+                                    </p>
+                                  )}
+                                </div>
+                                <div className="flex-shrink-0 flex space-x-1">
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setEditingShiftIndex(index);
+                                    }}
+                                    className="p-2 rounded-md text-gray-400 hover:text-indigo-400 hover:bg-gray-700/50 transition-colors"
+                                    title="Edit shift"
+                                  >
+                                    <PencilIcon />
+                                  </button>
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleDeleteShift(index);
+                                    }}
+                                    className="p-2 rounded-md text-gray-400 hover:text-red-400 hover:bg-gray-700/50 transition-colors"
+                                    title="Delete shift"
+                                  >
+                                    <TrashIcon />
+                                  </button>
+                                </div>
+                              </motion.li>
+                            );
+                          })}
+                        </motion.ul>
+                      </div>
+                    ))}
+                  </div>
+                  {removedShifts.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                      <p className="text-sm font-medium text-gray-300">
+                        No longer on the roster (checked events will be
+                        deleted):
+                      </p>
+                      {removedShifts.map((shift) => (
+                        <div
+                          key={shift.eventId}
+                          onClick={() =>
+                            handleToggleRemovedShift(shift.eventId)
+                          }
+                          className="p-3 rounded-lg border border-gray-700 bg-gray-900/50 flex items-center space-x-4 cursor-pointer"
+                        >
+                          <div
+                            className={`w-5 h-5 rounded-md flex-shrink-0 transition-all duration-200 ${shift.selected ? "bg-red-500" : "bg-gray-700 border-2 border-gray-600"}`}
+                          />
                           <p
-                            className={`text-sm ${shift.isConflicting ? "text-red-400" : "text-gray-400"}`}
+                            className={`text-sm ${shift.selected ? "text-gray-400 line-through" : "text-gray-300"}`}
                           >
-                            {shift.startTime} - {shift.endTime} at{" "}
-                            <span className="font-medium text-indigo-400">
-                              {shift.location}
-                            </span>
-                            {shift.isConflicting && (
-                              <span className="font-bold ml-2 text-yellow-400">
-                                (Conflict)
-                              </span>
-                            )}
+                            {shift.employeeName && `${shift.employeeName}: `}
+                            {shift.date} ({shift.dayOfWeek}) {shift.startTime} -{" "}
+                            {shift.endTime} at {shift.location}
                           </p>
                         </div>
-                      </motion.li>
-                    ))}
-                  </motion.ul>
+                      ))}
+                    </div>
+                  )}
+                  {editingShiftIndex === "new" ? (
+                    <div className="mt-3">
+                      <ShiftEditor
+                        shift={createBlankShift()}
+                        profile={selectedLayoutProfile}
+                        showEmployeeName={isRosterMode}
+                        onSave={handleSaveShift}
+                        onCancel={() => setEditingShiftIndex(null)}
+                      />
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setEditingShiftIndex("new")}
+                      className="mt-3 w-full py-3 border-2 border-dashed border-gray-600 rounded-lg text-sm font-medium text-gray-400 hover:border-indigo-500 hover:text-indigo-400 transition-colors"
+                    >
+                      + Add shift
+                    </button>
+                  )}
+                  {!isRosterMode && reviewHoursSummary.total.hours > 0 && (
+                    <details className="mt-4">
+                      <summary className="cursor-pointer text-sm font-medium text-gray-300 hover:text-indigo-400 transition-colors">
+                        Hours &amp; Pay:{" "}
+                        {formatHours(reviewHoursSummary.total.paidHours)} paid
+                        hours
+                      </summary>
+                      <div className="mt-2">
+                        <HoursSummaryPanel
+                          summary={reviewHoursSummary}
+                          currency={paySettings.currency}
+                        />
+                      </div>
+                    </details>
+                  )}
                 </div>
               </div>
               <div className="flex flex-col sm:flex-row justify-between items-center pt-4 mt-6 border-t border-white/10">
@@ -889,18 +3938,65 @@ export default function App() {
                 >
                   &larr; Back
                 </button>
-                <motion.button
-                  onClick={handleAddShiftsToCalendar}
-                  disabled={
-                    extractedShifts.filter((s) => s.selected).length === 0
-                  }
-                  variants={buttonHoverTapVariants}
-                  whileHover="hover"
-                  whileTap="tap"
-                  className="w-full sm:w-auto px-6 py-3 border border-transparent rounded-lg shadow-lg text-sm font-medium text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                <div className="w-full sm:w-auto flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={
+                      isRosterMode ? handleDownloadRosterCsv : handleDownloadIcs
+                    }
+                    disabled={
+                      extractedShifts.filter((s) => s.selected).length === 0 ||
+                      !isYearConfirmed ||
+                      editingShiftIndex !== null
+                    }
+                    className="w-full sm:w-auto px-6 py-3 border border-gray-600 rounded-lg text-sm font-medium text-gray-300 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isRosterMode ? "⬇ Download CSV" : "⬇ Download .ics"}
+                  </button>
+                  <motion.button
+                    onClick={handleAddShiftsToCalendar}
+                    disabled={
+                      !isCalendarConnected ||
+                      (extractedShifts.filter((s) => s.selected).length === 0 &&
+                        removedShifts.filter((s) => s.selected).length === 0) ||
+                      !isYearConfirmed ||
+                      editingShiftIndex !== null
+                    }
+                    variants={buttonHoverTapVariants}
+                    whileHover="hover"
+                    whileTap="tap"
+                    className="w-full sm:w-auto px-6 py-3 border border-transparent rounded-lg shadow-lg text-sm font-medium text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {extractedShifts.some((s) => s.selected && s.changedFrom) ||
+                    removedShifts.some((s) => s.selected)
+                      ? "📅 Apply Changes"
+                      : isRosterMode
+                        ? "📅 Add to Team Calendar"
+                        : "📅 Add to Calendar"}
+                  </motion.button>
+                </div>
+              </div>
+            </StepCard>
+          )}
+
+          {appStep === "HISTORY" && (
+            <StepCard key="history">
+              <h2 className="text-xl font-semibold text-gray-200 mb-4">
+                Import History
+              </h2>
+              <ImportHistoryList
+                records={importRecords}
+                undoingImportId={undoingImportId}
+                getUndoBlocker={getUndoBlocker}
+                onUndo={handleUndoImport}
+                onRemove={handleRemoveImport}
+              />
+              <div className="flex pt-4 mt-6 border-t border-white/10">
+                <button
+                  onClick={handleBackToConfig}
+                  className="text-sm font-medium text-gray-400 hover:text-indigo-400 transition-colors"
                 >
-                  📅 Add to Calendar
-                </motion.button>
+                  &larr; Back
+                </button>
               </div>
             </StepCard>
           )}
@@ -926,14 +4022,59 @@ export default function App() {
                 </>
               ) : (
                 <>
-                  <CheckCircleIcon />
+                  {failedWrites.length === 0 ? (
+                    <CheckCircleIcon />
+                  ) : (
+                    <ExclamationIcon className="h-16 w-16 text-yellow-400 mx-auto" />
+                  )}
                   <h2 className="mt-6 text-3xl font-bold text-gray-100">
-                    Success! 🎉
+                    {failedWrites.length === 0 ? "Success! 🎉" : "Almost there"}
                   </h2>
                   <p className="mt-3 text-lg text-gray-300">
-                    {extractedShifts.filter((s) => s.selected).length} shifts
-                    have been added to your calendar.
+                    {countWrites("insert")} shifts have been added to your
+                    calendar.
                   </p>
+                  {(countWrites("patch") > 0 || countWrites("delete") > 0) && (
+                    <p className="mt-1 text-sm text-gray-400">
+                      {countWrites("patch")} updated &middot;{" "}
+                      {countWrites("delete")} removed
+                    </p>
+                  )}
+                  {(countWrites("deleteConflict") > 0 ||
+                    countWrites("declineConflict") > 0) && (
+                    <p className="mt-1 text-sm text-gray-400">
+                      Conflicts resolved: {countWrites("deleteConflict")} events
+                      deleted &middot; {countWrites("declineConflict")}{" "}
+                      invitations declined
+                    </p>
+                  )}
+                  {failedWrites.length > 0 && (
+                    <div className="mt-6 text-left bg-red-900/40 border border-red-700 rounded-lg p-4 space-y-2">
+                      <p className="text-sm font-semibold text-red-300">
+                        {failedWrites.length} changes could not be made:
+                      </p>
+                      <ul className="space-y-1">
+                        {failedWrites.map((write) => (
+                          <li key={write.id} className="text-sm text-red-200">
+                            {write.conflict &&
+                              `${write.action === "declineConflict" ? "Decline" : "Delete"} “${write.conflict.summary || "event"}”, clashing with `}
+                            {write.shift.date} {write.shift.startTime} -{" "}
+                            {write.shift.endTime} at {write.shift.location}
+                            <span className="text-red-400">
+                              {" "}
+                              — {write.error}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                      <button
+                        onClick={handleRetryFailedWrites}
+                        className="mt-2 px-4 py-2 rounded-lg text-sm font-medium text-red-200 bg-red-800/50 hover:bg-red-700/50 transition-all duration-200"
+                      >
+                        Retry failed
+                      </button>
+                    </div>
+                  )}
                   <motion.button
                     onClick={handleStartOver}
                     variants={buttonHoverTapVariants}
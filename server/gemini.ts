@@ -0,0 +1,81 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { LayoutProfile } from "../types";
+import {
+  buildExtractionPrompt,
+  buildResponseSchema,
+} from "../services/layoutProfiles";
+import { httpError } from "./http";
+
+const GEMINI_MODEL = "gemini-2.5-flash";
+
+export interface ExtractionRequest {
+  data: Buffer;
+  mimeType: string;
+  // null extracts every employee's shifts.
+  names: string[] | null;
+  profile: LayoutProfile;
+  referenceYear: number;
+}
+
+const toHttpError = (error: unknown) => {
+  if (error instanceof Error) {
+    if (
+      error.message.includes("API key") ||
+      error.message.includes("authentication")
+    ) {
+      return httpError(
+        "The extraction service's API key was rejected. Please contact the site owner.",
+        502,
+      );
+    } else if (
+      error.message.includes("quota") ||
+      error.message.includes("limit")
+    ) {
+      return httpError("API quota exceeded. Please try again later.", 429);
+    } else if (
+      error.message.includes("blocked") ||
+      error.message.includes("safety")
+    ) {
+      return httpError(
+        "Content was blocked by safety filters. Please try with a different image.",
+        422,
+      );
+    }
+  }
+  return httpError(
+    "Failed to analyze the schedule. The AI model could not process the image. Please ensure the image is clear and contains a readable schedule.",
+    502,
+  );
+};
+
+// Asks Gemini for the user's shifts and returns its raw JSON answer.
+export const requestShiftExtraction = async (
+  apiKey: string,
+  { data, mimeType, names, profile, referenceYear }: ExtractionRequest,
+) => {
+  const genAI = new GoogleGenAI({ apiKey });
+  try {
+    const response = await genAI.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [
+        {
+          parts: [
+            { text: buildExtractionPrompt(profile, names, referenceYear) },
+            { inlineData: { mimeType, data: data.toString("base64") } },
+          ],
+        },
+      ],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: buildResponseSchema(profile, names, referenceYear, {
+          types: Type,
+          isGemini: true,
+        }),
+      },
+    });
+    return response.text ?? "";
+  } catch (error) {
+    console.error("Gemini request failed:", error);
+    throw toHttpError(error);
+  }
+};
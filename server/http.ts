@@ -0,0 +1,57 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+
+// An error whose message is safe to show to the user, with its HTTP status.
+export const httpError = (message: string, status: number) =>
+  Object.assign(new Error(message), { status });
+
+export const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Buffers the request body, giving up as soon as it exceeds maxBytes.
+export const readBody = (req: IncomingMessage, maxBytes: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const declared = Number(req.headers["content-length"]);
+    if (declared > maxBytes) {
+      reject(httpError("The upload is too large.", 413));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(httpError("The upload is too large.", 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+/**
+ * The caller's address. Behind Cloud Run and nginx each proxy appends the
+ * address it saw to X-Forwarded-For, so the client is the entry that many
+ * hops from the end; anything further left was sent by the client itself.
+ */
+export const getClientAddress = (
+  req: IncomingMessage,
+  trustedProxyCount: number,
+) => {
+  const forwarded = String(req.headers["x-forwarded-for"] || "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (trustedProxyCount > 0 && forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - trustedProxyCount)];
+  }
+  return req.socket.remoteAddress || "unknown";
+};
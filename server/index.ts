@@ -0,0 +1,82 @@
+import { createServer } from "node:http";
+import { getClientAddress, httpError, readBody, sendJson } from "./http";
+import { createRateLimiter } from "./rateLimiter";
+import { validateUpload } from "./uploadValidation";
+import { requestShiftExtraction } from "./gemini";
+
+const PORT = Number(process.env.PORT || 3001);
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
+const MAX_UPLOAD_MB = Number(process.env.MAX_UPLOAD_MB || 10);
+const RATE_LIMIT_PER_HOUR = Number(process.env.RATE_LIMIT_PER_HOUR || 30);
+// Cloud Run's front end and nginx each add an X-Forwarded-For entry.
+const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT ?? 2);
+
+const MAX_FILE_BYTES = MAX_UPLOAD_MB * 1024 * 1024;
+// Leaves room for the multipart framing and the other form fields.
+const MAX_BODY_BYTES = MAX_FILE_BYTES + 64 * 1024;
+const HOUR_MS = 60 * 60 * 1000;
+
+const rateLimiter = createRateLimiter(RATE_LIMIT_PER_HOUR, HOUR_MS);
+setInterval(() => rateLimiter.prune(), HOUR_MS).unref();
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  if (url.pathname === "/api/health") {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+  if (url.pathname !== "/api/extract") {
+    sendJson(res, 404, { error: "Not found." });
+    return;
+  }
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed." }, { Allow: "POST" });
+    return;
+  }
+
+  try {
+    if (!GEMINI_API_KEY) {
+      throw httpError(
+        "The extraction service is not configured. GEMINI_API_KEY is missing.",
+        503,
+      );
+    }
+    const retryAfterMs = rateLimiter.take(
+      getClientAddress(req, TRUSTED_PROXY_COUNT),
+    );
+    if (retryAfterMs > 0) {
+      const minutes = Math.ceil(retryAfterMs / 60000);
+      sendJson(
+        res,
+        429,
+        {
+          error: `Too many schedules analyzed. Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+        },
+        { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) },
+      );
+      return;
+    }
+
+    const body = await readBody(req, MAX_BODY_BYTES);
+    let form: FormData;
+    try {
+      form = await new Response(body, {
+        headers: { "Content-Type": req.headers["content-type"] || "" },
+      }).formData();
+    } catch {
+      throw httpError("Expected a multipart/form-data upload.", 400);
+    }
+    const upload = await validateUpload(form, MAX_FILE_BYTES);
+    const responseText = await requestShiftExtraction(GEMINI_API_KEY, upload);
+    sendJson(res, 200, { responseText });
+  } catch (e: any) {
+    if (!e.status) console.error("Extraction request failed:", e);
+    sendJson(res, e.status || 500, {
+      error: e.status ? e.message : "The extraction service failed.",
+    });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Extraction service listening on port ${PORT}`);
+});
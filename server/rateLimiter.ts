@@ -0,0 +1,32 @@
+/**
+ * Sliding-window limit of requests per client, kept in memory. Each Cloud
+ * Run instance counts on its own, which is enough to stop casual abuse.
+ */
+export const createRateLimiter = (maxRequests: number, windowMs: number) => {
+  const requests = new Map<string, number[]>();
+
+  // Returns 0 when the request may proceed, else the ms until it may retry.
+  const take = (client: string, now = Date.now()) => {
+    const recent = (requests.get(client) || []).filter(
+      (time) => now - time < windowMs,
+    );
+    if (recent.length >= maxRequests) {
+      requests.set(client, recent);
+      return recent[0] + windowMs - now;
+    }
+    recent.push(now);
+    requests.set(client, recent);
+    return 0;
+  };
+
+  // Drop clients with no requests in the current window.
+  const prune = (now = Date.now()) => {
+    for (const [client, times] of requests) {
+      if (times.every((time) => now - time >= windowMs)) {
+        requests.delete(client);
+      }
+    }
+  };
+
+  return { take, prune };
+};
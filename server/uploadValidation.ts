@@ -0,0 +1,122 @@
+import { LayoutProfile } from "../types";
+import {
+  isLayoutProfile,
+  validateLayoutProfile,
+} from "../services/layoutProfiles";
+import { MAX_NAME_ALIASES } from "../services/nameAliases";
+import { httpError } from "./http";
+
+export const ALLOWED_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "application/pdf",
+];
+
+const MAX_NAME_LENGTH = 100;
+const MAX_NAMES = MAX_NAME_ALIASES + 1;
+
+const startsWith = (data: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, i) => data[offset + i] === byte);
+
+// The declared type is checked against the file's leading bytes.
+const matchesSignature = (data: Buffer, mimeType: string) => {
+  switch (mimeType) {
+    case "image/png":
+      return startsWith(data, [0x89, 0x50, 0x4e, 0x47]);
+    case "image/jpeg":
+      return startsWith(data, [0xff, 0xd8, 0xff]);
+    case "image/webp":
+      return (
+        data.toString("latin1", 0, 4) === "RIFF" &&
+        data.toString("latin1", 8, 12) === "WEBP"
+      );
+    case "image/heic":
+    case "image/heif":
+      return data.toString("latin1", 4, 8) === "ftyp";
+    case "application/pdf":
+      return data.toString("latin1", 0, 5) === "%PDF-";
+    default:
+      return false;
+  }
+};
+
+export interface ValidatedUpload {
+  data: Buffer;
+  mimeType: string;
+  names: string[] | null;
+  profile: LayoutProfile;
+  referenceYear: number;
+}
+
+export const validateUpload = async (
+  form: FormData,
+  maxFileBytes: number,
+): Promise<ValidatedUpload> => {
+  const file = form.get("file");
+  if (!(file instanceof Blob)) {
+    throw httpError("No schedule file was uploaded.", 400);
+  }
+  if (!ALLOWED_MIME_TYPES.includes(file.type)) {
+    throw httpError(
+      "Unsupported file type. Upload a PNG, JPEG, WebP or HEIC image, or a PDF.",
+      415,
+    );
+  }
+  if (file.size > maxFileBytes) {
+    throw httpError(
+      `The file is too large. The limit is ${Math.floor(maxFileBytes / 1024 / 1024)} MB.`,
+      413,
+    );
+  }
+  const data = Buffer.from(await file.arrayBuffer());
+  if (!matchesSignature(data, file.type)) {
+    throw httpError("The file's contents do not match its type.", 415);
+  }
+
+  // The user's name followed by their aliases, or none for the whole roster.
+  const isWholeRoster = form.get("mode") === "roster";
+  const names = form
+    .getAll("names")
+    .map((name) => String(name).trim())
+    .filter(Boolean);
+  if (
+    (names.length === 0 && !isWholeRoster) ||
+    names.length > MAX_NAMES ||
+    names.some((name) => name.length > MAX_NAME_LENGTH)
+  ) {
+    throw httpError(
+      `Between 1 and ${MAX_NAMES} names of up to ${MAX_NAME_LENGTH} characters each are required.`,
+      400,
+    );
+  }
+
+  let profile: unknown;
+  try {
+    profile = JSON.parse(String(form.get("profile") || ""));
+  } catch {
+    profile = null;
+  }
+  if (!isLayoutProfile(profile) || validateLayoutProfile(profile)) {
+    throw httpError("The schedule layout is missing or invalid.", 400);
+  }
+
+  const referenceYear = Number(form.get("referenceYear"));
+  if (
+    !Number.isInteger(referenceYear) ||
+    referenceYear < 2000 ||
+    referenceYear > 2100
+  ) {
+    throw httpError("The reference year is invalid.", 400);
+  }
+
+  return {
+    data,
+    mimeType: file.type,
+    names: isWholeRoster ? null : names,
+    profile,
+    referenceYear,
+  };
+};
@@ -0,0 +1,341 @@
+import {
+  BusyInterval,
+  CalDavSettings,
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarProvider,
+} from "../types";
+import { buildIcsDocument, SHIFT_KEY_ICS_PROPERTY } from "./icsExport";
+import { addDays } from "./shiftTime";
+import { zonedDateTimeToInstant } from "./timeZones";
+
+const DAV_NS = "DAV:";
+const CALDAV_NS = "urn:ietf:params:xml:ns:caldav";
+const UID_DOMAIN = "shift-sync-ai";
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// RFC 5545 §3.1: unfold continuation lines, then split "NAME;PARAM=x:value".
+const parseIcsLines = (text: string): IcsProperty[] =>
+  text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => {
+      const match = line.match(
+        /^([^:;]+)((?:;[^:;=]+=(?:"[^"]*"|[^:;]*))*):(.*)$/,
+      );
+      if (!match) return { name: "", params: {}, value: "" };
+      const params: Record<string, string> = {};
+      for (const param of match[2].matchAll(/;([^:;=]+)=("[^"]*"|[^:;]*)/g)) {
+        params[param[1].toUpperCase()] = param[2].replace(/^"|"$/g, "");
+      }
+      return { name: match[1].toUpperCase(), params, value: match[3] };
+    });
+
+const unescapeText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, c) => (c === "n" || c === "N" ? "\n" : c));
+
+/**
+ * Converts an ICS date or date-time to what CalendarEvent expects: a plain
+ * YYYY-MM-DD for all-day values, otherwise an ISO instant. Times with a TZID
+ * the browser does not know are read as floating local time.
+ */
+const parseIcsDate = (property: IcsProperty) => {
+  const { value, params } = property;
+  const date = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!date) return null;
+  const day = `${date[1]}-${date[2]}-${date[3]}`;
+  const time = value.match(/T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (params.VALUE === "DATE" || !time) return { value: day, isAllDay: true };
+
+  const local = `${day}T${time[1]}:${time[2]}:${time[3]}`;
+  let instant = new Date(time[4] ? `${local}Z` : local).getTime();
+  if (!time[4] && params.TZID) {
+    try {
+      instant = zonedDateTimeToInstant(local, params.TZID);
+    } catch {
+      // Not an IANA zone name; keep the floating reading.
+    }
+  }
+  return { value: new Date(instant).toISOString(), isAllDay: false };
+};
+
+interface ParsedIcsEvent {
+  uid: string;
+  sequence: number;
+  summary: string;
+  start: { value: string; isAllDay: boolean };
+  end: { value: string; isAllDay: boolean } | null;
+  shiftKey?: string;
+}
+
+const parseIcsEvents = (text: string): ParsedIcsEvent[] => {
+  const events: ParsedIcsEvent[] = [];
+  let current: Partial<ParsedIcsEvent> | null = null;
+  // Nested components such as VALARM have their own SUMMARY and UID.
+  let depth = 0;
+  for (const property of parseIcsLines(text)) {
+    if (property.name === "BEGIN") {
+      if (property.value === "VEVENT") current = { sequence: 0, summary: "" };
+      else if (current) depth++;
+      continue;
+    }
+    if (property.name === "END") {
+      if (property.value === "VEVENT" && current?.start) {
+        events.push({ uid: "", end: null, ...current } as ParsedIcsEvent);
+        current = null;
+      } else if (current && depth > 0) depth--;
+      continue;
+    }
+    if (!current || depth > 0) continue;
+    switch (property.name) {
+      case "UID":
+        current.uid = property.value;
+        break;
+      case "SEQUENCE":
+        current.sequence = Number(property.value) || 0;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(property.value);
+        break;
+      case "DTSTART":
+        current.start = parseIcsDate(property) ?? undefined;
+        break;
+      case "DTEND":
+        current.end = parseIcsDate(property);
+        break;
+      case SHIFT_KEY_ICS_PROPERTY:
+        current.shiftKey = unescapeText(property.value);
+        break;
+    }
+  }
+  return events;
+};
+
+const toCalendarEvent = (id: string, event: ParsedIcsEvent): CalendarEvent => {
+  const { start } = event;
+  // Without DTEND an all-day event lasts one day and a timed one is instant.
+  const end =
+    event.end?.value ??
+    (start.isAllDay ? addDays(start.value, 1) : start.value);
+  return {
+    id,
+    summary: event.summary,
+    start: start.value,
+    end,
+    isAllDay: start.isAllDay,
+    shiftKey: event.shiftKey,
+  };
+};
+
+// "2025-08-17T00:00:00.000Z" to the CalDAV UTC form "20250817T000000Z".
+const formatTimeRange = (iso: string) =>
+  new Date(iso)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const childText = (element: Element, namespace: string, name: string) =>
+  element.getElementsByTagNameNS(namespace, name)[0]?.textContent?.trim() ?? "";
+
+const parseMultistatus = (xml: string) => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  return Array.from(doc.getElementsByTagNameNS(DAV_NS, "response"));
+};
+
+// btoa only takes Latin-1, so encode the credentials as UTF-8 first.
+const basicAuth = (username: string, password: string) => {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+// Servers that don't report privileges are assumed writable.
+const hasWritePrivilege = (response: Element) => {
+  const privileges = response.getElementsByTagNameNS(
+    DAV_NS,
+    "current-user-privilege-set",
+  )[0];
+  return (
+    !privileges ||
+    ["all", "write", "write-content"].some(
+      (name) => privileges.getElementsByTagNameNS(DAV_NS, name).length > 0,
+    )
+  );
+};
+
+const withTrailingSlash = (url: string) =>
+  url.endsWith("/") ? url : `${url}/`;
+
+/**
+ * Talks to a CalDAV server (Radicale, Nextcloud, iCloud, ...) directly from
+ * the browser. The server must allow cross-origin requests from this app.
+ * Calendar and event ids are absolute resource URLs.
+ */
+export const createCalDavCalendarProvider = (
+  settings: CalDavSettings,
+): CalendarProvider => {
+  const homeUrl = withTrailingSlash(settings.serverUrl.trim());
+  const authorization = basicAuth(settings.username, settings.password);
+
+  const request = async (
+    url: string,
+    method: string,
+    body?: string,
+    headers: Record<string, string> = {},
+  ) => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: { Authorization: authorization, ...headers },
+        body,
+      });
+    } catch {
+      throw new Error(
+        `Could not reach the CalDAV server at ${homeUrl}. Check the address and that it allows requests from this site (CORS).`,
+      );
+    }
+    if (!response.ok) {
+      const message =
+        response.status === 401 || response.status === 403
+          ? "The CalDAV server rejected the username or password."
+          : `CalDAV ${method} failed: ${response.status} ${response.statusText}`;
+      throw Object.assign(new Error(message), { status: response.status });
+    }
+    return response;
+  };
+
+  const readEvent = async (eventUrl: string) => {
+    const response = await request(eventUrl, "GET");
+    const [event] = parseIcsEvents(await response.text());
+    return event;
+  };
+
+  const putEvent = (
+    eventUrl: string,
+    uid: string,
+    event: CalendarEventInput,
+    sequence: number,
+    headers: Record<string, string>,
+  ) =>
+    request(
+      eventUrl,
+      "PUT",
+      buildIcsDocument([{ uid, event }], { sequence, method: null }),
+      { "Content-Type": "text/calendar; charset=utf-8", ...headers },
+    );
+
+  const listEvents = async (
+    calendarId: string,
+    timeMin: string,
+    timeMax: string,
+  ) => {
+    const start = formatTimeRange(timeMin);
+    const end = formatTimeRange(timeMax);
+    const response = await request(
+      calendarId,
+      "REPORT",
+      `<?xml version="1.0" encoding="utf-8"?>
+  <c:calendar-query xmlns:d="DAV:" xmlns:c="${CALDAV_NS}">
+    <d:prop>
+      <c:calendar-data><c:expand start="${start}" end="${end}"/></c:calendar-data>
+    </d:prop>
+    <c:filter>
+      <c:comp-filter name="VCALENDAR">
+        <c:comp-filter name="VEVENT">
+          <c:time-range start="${start}" end="${end}"/>
+        </c:comp-filter>
+      </c:comp-filter>
+    </c:filter>
+  </c:calendar-query>`,
+      { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+    );
+    return parseMultistatus(await response.text()).flatMap((r) => {
+      const url = new URL(childText(r, DAV_NS, "href"), calendarId).href;
+      const data = childText(r, CALDAV_NS, "calendar-data");
+      return parseIcsEvents(data).map((event) => toCalendarEvent(url, event));
+    });
+  };
+
+  return {
+    listCalendars: async () => {
+      const response = await request(
+        homeUrl,
+        "PROPFIND",
+        `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="${CALDAV_NS}">
+  <d:prop><d:resourcetype/><d:displayname/><d:current-user-privilege-set/></d:prop>
+</d:propfind>`,
+        { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+      );
+      return parseMultistatus(await response.text())
+        .filter(
+          (r) => r.getElementsByTagNameNS(CALDAV_NS, "calendar").length > 0,
+        )
+        .map((r) => {
+          const url = new URL(childText(r, DAV_NS, "href"), homeUrl).href;
+          const fallbackName = decodeURIComponent(
+            url.replace(/\/$/, "").split("/").pop() || url,
+          );
+          return {
+            id: withTrailingSlash(url),
+            summary: childText(r, DAV_NS, "displayname") || fallbackName,
+            canWrite: hasWritePrivilege(r),
+          };
+        });
+    },
+
+    listEvents,
+
+    // Read from the events themselves; free-busy-query support varies.
+    queryFreeBusy: async (calendarIds, timeMin, timeMax) => {
+      const calendars = await Promise.all(
+        calendarIds.map(async (calendarId) =>
+          (await listEvents(calendarId, timeMin, timeMax)).map(
+            ({ start, end, isAllDay }): BusyInterval => ({
+              calendarId,
+              start,
+              end,
+              isAllDay,
+            }),
+          ),
+        ),
+      );
+      return calendars.flat();
+    },
+
+    createEvent: async (calendarId, event) => {
+      const id = crypto.randomUUID();
+      const eventUrl = new URL(`${id}.ics`, withTrailingSlash(calendarId)).href;
+      await putEvent(eventUrl, `${id}@${UID_DOMAIN}`, event, 0, {
+        "If-None-Match": "*",
+      });
+      return eventUrl;
+    },
+
+    updateEvent: async (_calendarId, eventId, event) => {
+      const existing = await readEvent(eventId);
+      if (!existing?.uid) {
+        throw new Error("The existing CalDAV event could not be read.");
+      }
+      await putEvent(eventId, existing.uid, event, existing.sequence + 1, {});
+    },
+
+    deleteEvent: async (_calendarId, eventId) => {
+      await request(eventId, "DELETE");
+    },
+
+    // Replying to an organiser needs scheduling (iTIP) support, which CalDAV
+    // servers offer inconsistently; events are never reported as invitations.
+    declineEvent: async () => {
+      throw new Error(
+        "Declining invitations is not supported for CalDAV calendars.",
+      );
+    },
+  };
+};
@@ -0,0 +1,86 @@
+import { CalendarWrite } from "../types";
+
+const MAX_CONCURRENT_WRITES = 3;
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 500;
+
+const RATE_LIMIT_REASONS = ["rateLimitExceeded", "userRateLimitExceeded"];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// gapi rejects with the HTTP response; quota errors arrive as 403 or 429.
+const isRetryableError = (e: any) => {
+  const status = e?.status ?? e?.result?.error?.code;
+  const reason = e?.result?.error?.errors?.[0]?.reason;
+  return (
+    status === 429 ||
+    (status === 403 && RATE_LIMIT_REASONS.includes(reason)) ||
+    status >= 500
+  );
+};
+
+export const describeWriteError = (e: any) =>
+  e?.result?.error?.message || e?.message || "Unknown error";
+
+// Retries rate-limited and server errors with exponential backoff and jitter.
+const withBackoff = async <T>(request: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (e) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryableError(e)) throw e;
+      const delay = BASE_DELAY_MS * 2 ** (attempt - 1);
+      await sleep(delay + Math.random() * delay);
+    }
+  }
+};
+
+/**
+ * Runs the pending and failed writes a few at a time and reports each result.
+ * Writes that already succeeded are returned untouched, so the same list can
+ * be passed again to retry only the failures.
+ */
+export const executeCalendarWrites = async (
+  writes: CalendarWrite[],
+  perform: (write: CalendarWrite) => Promise<string | undefined>,
+  onProgress: (writes: CalendarWrite[]) => void,
+): Promise<CalendarWrite[]> => {
+  const results = writes.map((w) =>
+    w.status === "done" ? w : { ...w, status: "pending" as const },
+  );
+  const queue = results
+    .map((w, i) => (w.status === "pending" ? i : -1))
+    .filter((i) => i !== -1);
+  onProgress([...results]);
+
+  const worker = async () => {
+    for (let i = queue.shift(); i !== undefined; i = queue.shift()) {
+      const write = results[i];
+      try {
+        const eventId = await withBackoff(() => perform(write));
+        results[i] = {
+          ...write,
+          status: "done",
+          eventId: eventId ?? write.eventId,
+          error: undefined,
+        };
+      } catch (e) {
+        console.error(`Calendar ${write.action} failed:`, e);
+        results[i] = {
+          ...write,
+          status: "failed",
+          error: describeWriteError(e),
+        };
+      }
+      onProgress([...results]);
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(MAX_CONCURRENT_WRITES, queue.length) },
+      worker,
+    ),
+  );
+  return results;
+};
@@ -0,0 +1,152 @@
+import {
+  BusyInterval,
+  CalendarEvent,
+  CalendarListEntry,
+  ConflictAction,
+  Shift,
+  ShiftConflict,
+} from "../types";
+import {
+  addDays,
+  getShiftEndDateTime,
+  getShiftStartDateTime,
+} from "./shiftTime";
+import { getRosterWeeks } from "./rosterDiff";
+import { getShiftKey } from "./shiftIdentity";
+import { zonedDateTimeToInstant } from "./timeZones";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An existing calendar entry, from an event listing or a free/busy query.
+export interface BusyEntry extends Omit<ShiftConflict, "action"> {
+  shiftKey?: string;
+}
+
+type TimeSpan = Pick<ShiftConflict, "start" | "end" | "isAllDay">;
+
+// All-day entries cover whole days in the user's time zone, and their end
+// date is exclusive.
+const toInstantRange = (
+  { start, end, isAllDay }: TimeSpan,
+  timeZone: string,
+) => {
+  if (!isAllDay) return [Date.parse(start), Date.parse(end)];
+  const endDate = end > start ? end : addDays(start, 1);
+  return [
+    zonedDateTimeToInstant(start, timeZone),
+    zonedDateTimeToInstant(endDate, timeZone),
+  ];
+};
+
+const getShiftInstantRange = (shift: Shift, timeZone: string) => [
+  zonedDateTimeToInstant(getShiftStartDateTime(shift), timeZone),
+  zonedDateTimeToInstant(getShiftEndDateTime(shift), timeZone),
+];
+
+/**
+ * The UTC range to ask the calendar about: the roster's whole weeks, so the
+ * roster diff sees shifts dropped from their edges, and every shift. A day of
+ * margin either side keeps all-day events, which some servers match by their
+ * UTC dates, in the result.
+ */
+export const getConflictWindow = (shifts: Shift[], timeZone: string) => {
+  const ranges = shifts.map((shift) => getShiftInstantRange(shift, timeZone));
+  const { firstDay, lastDay } = getRosterWeeks(shifts);
+  return {
+    timeMin: new Date(
+      Math.min(
+        zonedDateTimeToInstant(firstDay, timeZone),
+        ...ranges.map(([start]) => start),
+      ) - DAY_MS,
+    ).toISOString(),
+    timeMax: new Date(
+      Math.max(
+        zonedDateTimeToInstant(addDays(lastDay, 1), timeZone),
+        ...ranges.map(([, end]) => end),
+      ) + DAY_MS,
+    ).toISOString(),
+  };
+};
+
+export const fromCalendarEvents = (
+  events: CalendarEvent[],
+  calendarId: string,
+  calendarName: string,
+): BusyEntry[] =>
+  events.map((event) => ({
+    summary: event.summary || null,
+    calendarId,
+    calendarName,
+    start: event.start,
+    end: event.end,
+    isAllDay: event.isAllDay,
+    eventId: event.id,
+    isInvitation: event.isInvitation,
+    shiftKey: event.shiftKey,
+  }));
+
+export const fromBusyIntervals = (
+  intervals: BusyInterval[],
+  calendars: CalendarListEntry[],
+): BusyEntry[] =>
+  intervals.map(({ calendarId, start, end, isAllDay }) => ({
+    summary: null,
+    calendarId,
+    calendarName:
+      calendars.find((c) => c.id === calendarId)?.summary || calendarId,
+    start,
+    end,
+    isAllDay,
+  }));
+
+// The entries that overlap the shift, other than the shift's own event.
+export const findShiftConflicts = (
+  shift: Shift,
+  entries: BusyEntry[],
+  timeZone: string,
+): ShiftConflict[] => {
+  const shiftKey = getShiftKey(shift);
+  const [shiftStart, shiftEnd] = getShiftInstantRange(shift, timeZone);
+  return entries
+    .filter((entry) => {
+      if (entry.shiftKey === shiftKey) return false;
+      if (entry.eventId && entry.eventId === shift.changedFrom?.eventId) {
+        return false;
+      }
+      const [start, end] = toInstantRange(entry, timeZone);
+      return shiftStart < end && start < shiftEnd;
+    })
+    .map(({ shiftKey, ...entry }) => ({ ...entry, action: "keepBoth" }));
+};
+
+// "Tue 09:00–10:30", or "all day", in the user's time zone.
+export const formatConflictTime = (conflict: TimeSpan, timeZone: string) => {
+  if (conflict.isAllDay) return "all day";
+  const [start, end] = toInstantRange(conflict, timeZone);
+  const time = new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  const day = new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: "short",
+  });
+  return `${day.format(start)} ${time.format(start)}–${time.format(end)}`;
+};
+
+// Actions that make sense for the entry: only events can be changed, and
+// only invitations declined.
+export const getConflictActions = (conflict: ShiftConflict) => {
+  const actions: ConflictAction[] = ["keepBoth", "skipShift"];
+  if (conflict.eventId) actions.push("delete");
+  if (conflict.eventId && conflict.isInvitation) actions.push("decline");
+  return actions;
+};
+
+export const CONFLICT_ACTION_LABELS: Record<ConflictAction, string> = {
+  keepBoth: "Keep both",
+  skipShift: "Skip this shift",
+  delete: "Delete the event",
+  decline: "Decline the invitation",
+};
@@ -0,0 +1,11 @@
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Comma-separated rows with CRLF line ends. The byte order mark makes Excel
+ * read the file as UTF-8, so Hebrew names survive.
+ */
+export const buildCsv = (rows: string[][]) =>
+  "\uFEFF" +
+  rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n") +
+  "\r\n";
@@ -0,0 +1,171 @@
+import {
+  BusyInterval,
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarListEntry,
+  CalendarProvider,
+} from "../types";
+import { getBrowserTimeZone, zonedDateTimeToInstant } from "./timeZones";
+
+const DEMO_CALENDARS: CalendarListEntry[] = [
+  { id: "demo-work", summary: "Work (demo)", canWrite: true },
+  { id: "demo-personal", summary: "Personal (demo)", canWrite: true },
+  { id: "demo-family", summary: "Family (demo)", canWrite: false },
+];
+
+interface DemoEvent extends CalendarEvent {
+  calendarId: string;
+}
+
+// Local wall-clock times, or dates for all-day events, around the sample
+// roster's week: a changed and a dropped shift, and a conflict of each kind.
+const SEED_EVENTS: Omit<DemoEvent, "id">[] = [
+  {
+    calendarId: "demo-work",
+    summary: "Work Shift: ASICS",
+    start: "2025-08-17T09:00",
+    end: "2025-08-17T15:00",
+    isAllDay: false,
+    shiftKey: "2025-08-17|09:00|15:00|ASICS",
+  },
+  {
+    calendarId: "demo-work",
+    summary: "Work Shift: ORIGINALS",
+    start: "2025-08-19T10:00",
+    end: "2025-08-19T18:00",
+    isAllDay: false,
+    shiftKey: "2025-08-19|10:00|18:00|ORIGINALS",
+  },
+  {
+    calendarId: "demo-work",
+    summary: "Dentist",
+    start: "2025-08-18T16:00",
+    end: "2025-08-18T17:00",
+    isAllDay: false,
+  },
+  {
+    calendarId: "demo-work",
+    summary: "Team meeting",
+    start: "2025-08-20T13:00",
+    end: "2025-08-20T14:00",
+    isAllDay: false,
+    isInvitation: true,
+  },
+  {
+    calendarId: "demo-personal",
+    summary: "Gym",
+    start: "2025-08-17T07:00",
+    end: "2025-08-17T08:00",
+    isAllDay: false,
+  },
+  {
+    calendarId: "demo-family",
+    summary: "Family trip",
+    start: "2025-08-21",
+    end: "2025-08-22",
+    isAllDay: true,
+  },
+];
+
+const notFound = () =>
+  Object.assign(new Error("The demo event does not exist."), { status: 404 });
+
+/**
+ * A calendar held in memory, seeded with events that exercise the roster
+ * diff and conflict checks. Changes last until the page is reloaded.
+ */
+export const createDemoCalendarProvider = (
+  timeZone: string = getBrowserTimeZone(),
+): CalendarProvider => {
+  const toInstant = (localDateTime: string, zone = timeZone) =>
+    new Date(zonedDateTimeToInstant(localDateTime, zone)).toISOString();
+  let nextId = 1;
+  const newId = () => `demo-event-${nextId++}`;
+  let events: DemoEvent[] = SEED_EVENTS.map((event) => ({
+    ...event,
+    id: newId(),
+    start: event.isAllDay ? event.start : toInstant(event.start),
+    end: event.isAllDay ? event.end : toInstant(event.end),
+  }));
+
+  const findEvent = (eventId: string) => {
+    const event = events.find((e) => e.id === eventId);
+    if (!event) throw notFound();
+    return event;
+  };
+  const overlaps = (event: DemoEvent, timeMin: string, timeMax: string) => {
+    const start = event.isAllDay
+      ? zonedDateTimeToInstant(event.start, timeZone)
+      : Date.parse(event.start);
+    const end = event.isAllDay
+      ? zonedDateTimeToInstant(event.end, timeZone)
+      : Date.parse(event.end);
+    return start < Date.parse(timeMax) && Date.parse(timeMin) < end;
+  };
+  const toDemoEvent = (
+    calendarId: string,
+    id: string,
+    event: CalendarEventInput,
+  ): DemoEvent => ({
+    id,
+    calendarId,
+    summary: event.summary,
+    start: toInstant(event.start, event.timeZone),
+    end: toInstant(event.end, event.timeZone),
+    isAllDay: false,
+    shiftKey: event.shiftKey,
+  });
+
+  return {
+    listCalendars: async () => DEMO_CALENDARS,
+
+    listEvents: async (calendarId, timeMin, timeMax) =>
+      events
+        .filter(
+          (event) =>
+            event.calendarId === calendarId &&
+            overlaps(event, timeMin, timeMax),
+        )
+        .map(({ calendarId: _, ...event }) => event),
+
+    queryFreeBusy: async (calendarIds, timeMin, timeMax) =>
+      events
+        .filter(
+          (event) =>
+            calendarIds.includes(event.calendarId) &&
+            overlaps(event, timeMin, timeMax),
+        )
+        .map(({ calendarId, start, end, isAllDay }): BusyInterval => ({
+          calendarId,
+          start,
+          end,
+          isAllDay,
+        })),
+
+    createEvent: async (calendarId, event) => {
+      const created = toDemoEvent(calendarId, newId(), event);
+      events = [...events, created];
+      return created.id;
+    },
+
+    updateEvent: async (calendarId, eventId, event) => {
+      findEvent(eventId);
+      events = events.map((e) =>
+        e.id === eventId ? toDemoEvent(calendarId, eventId, event) : e,
+      );
+    },
+
+    deleteEvent: async (_calendarId, eventId) => {
+      findEvent(eventId);
+      events = events.filter((e) => e.id !== eventId);
+    },
+
+    // Declined invitations drop out of the calendar.
+    declineEvent: async (_calendarId, eventId) => {
+      if (!findEvent(eventId).isInvitation) {
+        throw new Error("Only invitations can be declined.");
+      }
+      events = events.filter((e) => e.id !== eventId);
+    },
+  };
+};
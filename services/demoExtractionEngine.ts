@@ -0,0 +1,45 @@
+import { ExtractionEngine } from "../types";
+import { parseExtractionResponse } from "./extractionResponse";
+import { SAMPLE_ROSTERS } from "./demoRecordings";
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const sha256 = async (data: BufferSource) =>
+  toHex(await crypto.subtle.digest("SHA-256", data));
+
+// Recordings are keyed by the image's content, not its name.
+let recordingsByHash: Promise<Map<string, (typeof SAMPLE_ROSTERS)[number]>>;
+const getRecordingsByHash = () =>
+  (recordingsByHash ??= Promise.all(
+    SAMPLE_ROSTERS.map(
+      async (sample) =>
+        [
+          await sha256(new TextEncoder().encode(sample.content)),
+          sample,
+        ] as const,
+    ),
+  ).then((entries) => new Map(entries)));
+
+// Replays the recorded server response for a sample roster image.
+export const createDemoExtractionEngine = (): ExtractionEngine => ({
+  extract: async (file, names, profile) => {
+    const sample = (await getRecordingsByHash()).get(
+      await sha256(await file.arrayBuffer()),
+    );
+    if (!sample) {
+      throw new Error(
+        `Demo mode has no recorded extraction for ${file.name}. Use the sample roster instead.`,
+      );
+    }
+    const response = sample.responses[names ? "personal" : "roster"];
+    return parseExtractionResponse(
+      JSON.stringify(response),
+      file,
+      profile,
+      new Date(sample.recordedAt),
+    );
+  },
+});
@@ -0,0 +1,16 @@
+import { SAMPLE_ROSTERS } from "./demoRecordings";
+
+/**
+ * Demo mode swaps the calendar for an in-memory fake and extraction for
+ * recorded responses, so the whole wizard runs without a network. Turn it on
+ * with VITE_DEMO_MODE=true or by adding ?demo to the address.
+ */
+export const IS_DEMO_MODE =
+  import.meta.env.VITE_DEMO_MODE === "true" ||
+  new URLSearchParams(window.location.search).has("demo");
+
+export const getSampleRosterFiles = () =>
+  SAMPLE_ROSTERS.map(
+    ({ fileName, mimeType, content }) =>
+      new File([content], fileName, { type: mimeType }),
+  );
@@ -0,0 +1,239 @@
+import { ExtractionMode } from "../types";
+import sampleRosterSvg from "../demo/sample-roster.svg?raw";
+
+export interface SampleRoster {
+  fileName: string;
+  mimeType: string;
+  content: string;
+  // Stands in for the upload date, so year inference matches every run.
+  recordedAt: string;
+  // Extraction server responses recorded for the image, as the server sent
+  // them, so demo mode runs them through the usual parsing.
+  responses: Record<ExtractionMode, unknown>;
+}
+
+// The personal recordings are for this name; demo mode fills it in.
+export const DEMO_USER_NAME = "דנה";
+
+export const SAMPLE_ROSTERS: SampleRoster[] = [
+  {
+    fileName: "sample-roster.svg",
+    mimeType: "image/svg+xml",
+    content: sampleRosterSvg,
+    recordedAt: "2025-08-15T12:00:00Z",
+    responses: {
+      personal: {
+        yearOnRoster: 2025,
+        shifts: [
+          {
+            date: "2025-08-17",
+            dayOfWeek: "ראשון",
+            startTime: "09:00",
+            endTime: "16:00",
+            location: "ASICS",
+            matchedName: "דנה",
+            coworkers: ["יוסי"],
+            box: [125, 312, 250, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-18",
+            dayOfWeek: "שני",
+            startTime: "15:30",
+            endTime: "22:00",
+            location: "ORIGINALS",
+            matchedName: "דנה",
+            box: [250, 0, 375, 312],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-20",
+            dayOfWeek: "רביעי",
+            startTime: "12:00",
+            endTime: "22:00",
+            location: "ASICS",
+            matchedName: "דנה",
+            coworkers: ["שיר"],
+            box: [500, 312, 625, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-21",
+            dayOfWeek: "חמישי",
+            startTime: "09:00",
+            endTime: "16:00",
+            location: "ORIGINALS",
+            matchedName: "דנה",
+            box: [625, 0, 750, 312],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-22",
+            dayOfWeek: "שישי",
+            startTime: "22:00",
+            endTime: "06:00",
+            location: "ASICS",
+            matchedName: "דנה",
+            box: [750, 312, 875, 625],
+            confidence: 0.55,
+          },
+        ],
+      },
+      roster: {
+        yearOnRoster: 2025,
+        shifts: [
+          {
+            date: "2025-08-17",
+            dayOfWeek: "ראשון",
+            startTime: "09:00",
+            endTime: "16:00",
+            location: "ASICS",
+            employeeName: "דנה",
+            box: [125, 312, 250, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-17",
+            dayOfWeek: "ראשון",
+            startTime: "09:00",
+            endTime: "16:00",
+            location: "ASICS",
+            employeeName: "יוסי",
+            box: [125, 312, 250, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-17",
+            dayOfWeek: "ראשון",
+            startTime: "12:00",
+            endTime: "20:00",
+            location: "ORIGINALS",
+            employeeName: "שיר",
+            box: [125, 0, 250, 312],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-18",
+            dayOfWeek: "שני",
+            startTime: "10:00",
+            endTime: "18:00",
+            location: "ASICS",
+            employeeName: "יוסי",
+            box: [250, 312, 375, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-18",
+            dayOfWeek: "שני",
+            startTime: "15:30",
+            endTime: "22:00",
+            location: "ORIGINALS",
+            employeeName: "דנה",
+            box: [250, 0, 375, 312],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-19",
+            dayOfWeek: "שלישי",
+            startTime: "09:00",
+            endTime: "16:00",
+            location: "ASICS",
+            employeeName: "שיר",
+            box: [375, 312, 500, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-19",
+            dayOfWeek: "שלישי",
+            startTime: "12:00",
+            endTime: "20:00",
+            location: "ORIGINALS",
+            employeeName: "יוסי",
+            box: [375, 0, 500, 312],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-20",
+            dayOfWeek: "רביעי",
+            startTime: "12:00",
+            endTime: "22:00",
+            location: "ASICS",
+            employeeName: "דנה",
+            box: [500, 312, 625, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-20",
+            dayOfWeek: "רביעי",
+            startTime: "12:00",
+            endTime: "22:00",
+            location: "ASICS",
+            employeeName: "שיר",
+            box: [500, 312, 625, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-20",
+            dayOfWeek: "רביעי",
+            startTime: "09:00",
+            endTime: "16:00",
+            location: "ORIGINALS",
+            employeeName: "יוסי",
+            box: [500, 0, 625, 312],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-21",
+            dayOfWeek: "חמישי",
+            startTime: "15:30",
+            endTime: "22:00",
+            location: "ASICS",
+            employeeName: "יוסי",
+            box: [625, 312, 750, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-21",
+            dayOfWeek: "חמישי",
+            startTime: "09:00",
+            endTime: "16:00",
+            location: "ORIGINALS",
+            employeeName: "דנה",
+            box: [625, 0, 750, 312],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-22",
+            dayOfWeek: "שישי",
+            startTime: "22:00",
+            endTime: "06:00",
+            location: "ASICS",
+            employeeName: "דנה",
+            box: [750, 312, 875, 625],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-22",
+            dayOfWeek: "שישי",
+            startTime: "09:00",
+            endTime: "14:00",
+            location: "ORIGINALS",
+            employeeName: "שיר",
+            box: [750, 0, 875, 312],
+            confidence: 0.95,
+          },
+          {
+            date: "2025-08-23",
+            dayOfWeek: "שבת",
+            startTime: "10:00",
+            endTime: "18:00",
+            location: "ASICS",
+            employeeName: "יוסי",
+            box: [875, 312, 1000, 625],
+            confidence: 0.95,
+          },
+        ],
+      },
+    },
+  },
+];
@@ -0,0 +1,28 @@
+// Saves generated content through a temporary link; works without any sign-in.
+export const downloadFile = (
+  fileName: string,
+  content: BlobPart,
+  mimeType: string,
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Opens a page in a new window and the browser's print dialog, from which it
+// can be saved as a PDF.
+export const printHtml = (html: string) => {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) {
+    throw new Error("Allow pop-ups for this site to print the report.");
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
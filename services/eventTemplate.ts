@@ -0,0 +1,113 @@
+import { CalendarEventInput, EventTemplate, Shift } from "../types";
+import { getShiftKey } from "./shiftIdentity";
+import {
+  getShiftDurationHours,
+  getShiftEndDateTime,
+  getShiftStartDateTime,
+} from "./shiftTime";
+import { getBrowserTimeZone } from "./timeZones";
+
+const STORAGE_KEY = "eventTemplate";
+
+export const DEFAULT_EVENT_TEMPLATE: EventTemplate = {
+  title: "Work Shift: {location}",
+  description: "Shift at {location}",
+  colorIds: {},
+  reminderMinutes: [],
+};
+
+export const TEMPLATE_PLACEHOLDERS = [
+  "name",
+  "location",
+  "start",
+  "end",
+  "hours",
+  "dayOfWeek",
+  "coworkers",
+];
+
+// Google Calendar's fixed event palette, keyed by colorId.
+export const CALENDAR_EVENT_COLORS = [
+  { id: "1", name: "Lavender", hex: "#7986cb" },
+  { id: "2", name: "Sage", hex: "#33b679" },
+  { id: "3", name: "Grape", hex: "#8e24aa" },
+  { id: "4", name: "Flamingo", hex: "#e67c73" },
+  { id: "5", name: "Banana", hex: "#f6bf26" },
+  { id: "6", name: "Tangerine", hex: "#f4511e" },
+  { id: "7", name: "Peacock", hex: "#039be5" },
+  { id: "8", name: "Graphite", hex: "#616161" },
+  { id: "9", name: "Blueberry", hex: "#3f51b5" },
+  { id: "10", name: "Basil", hex: "#0b8043" },
+  { id: "11", name: "Tomato", hex: "#d50000" },
+];
+
+export const loadEventTemplate = (): EventTemplate => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return { ...DEFAULT_EVENT_TEMPLATE, ...stored };
+  } catch (e) {
+    console.warn("Ignoring unreadable event template:", e);
+    return DEFAULT_EVENT_TEMPLATE;
+  }
+};
+
+export const saveEventTemplate = (template: EventTemplate) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(template));
+
+export const parseReminderMinutes = (text: string) =>
+  text
+    .split(",")
+    .map((part) => parseInt(part.trim(), 10))
+    .filter((minutes) => Number.isFinite(minutes) && minutes >= 0);
+
+const formatHours = (hours: number) =>
+  Number.isInteger(hours)
+    ? hours.toString()
+    : hours.toFixed(2).replace(/0$/, "");
+
+// Unknown placeholders are left as written so typos stay visible.
+export const renderTemplate = (template: string, shift: Shift) => {
+  const values: Record<string, string> = {
+    name: shift.employeeName ?? "",
+    location: shift.location,
+    start: shift.startTime,
+    end: shift.endTime,
+    hours: formatHours(getShiftDurationHours(shift)),
+    dayOfWeek: shift.dayOfWeek,
+    coworkers: shift.coworkers?.join(", ") ?? "",
+  };
+  return template.replace(/\{(\w+)\}/g, (match, name) => values[name] ?? match);
+};
+
+// Shared team calendars need to say whose shift each event is.
+export const withEmployeeNameInTitle = (
+  template: EventTemplate,
+): EventTemplate =>
+  template.title.includes("{name}")
+    ? template
+    : { ...template, title: `{name}: ${template.title}` };
+
+// Co-workers are listed under the description unless the template places them.
+const renderDescription = (template: EventTemplate, shift: Shift) => {
+  const description = renderTemplate(template.description, shift);
+  return shift.coworkers?.length &&
+    !template.description.includes("{coworkers}")
+    ? `${description}\nWorking with: ${shift.coworkers.join(", ")}`
+    : description;
+};
+
+export const buildShiftEventInput = (
+  template: EventTemplate,
+  shift: Shift,
+  timeZone: string = getBrowserTimeZone(),
+): CalendarEventInput => ({
+  summary: renderTemplate(template.title, shift),
+  description: renderDescription(template, shift),
+  location: shift.location,
+  start: getShiftStartDateTime(shift),
+  end: getShiftEndDateTime(shift),
+  timeZone,
+  colorId: template.colorIds[shift.location],
+  reminderMinutes: template.reminderMinutes,
+  shiftKey: getShiftKey(shift),
+});
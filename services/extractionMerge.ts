@@ -0,0 +1,76 @@
+import { ExtractionResult, Shift, YearInference } from "../types";
+import { applyScheduleYear } from "./scheduleYear";
+import { getShiftKey } from "./shiftIdentity";
+
+const mergeSources = (a?: string, b?: string) =>
+  [...new Set([a, b].filter(Boolean))].join(", ") || undefined;
+
+const mergeCoworkers = (a: string[] = [], b: string[] = []) => {
+  const merged = [...new Set([...a, ...b])];
+  return merged.length > 0 ? merged : undefined;
+};
+
+// The same shift read from two files (e.g. overlapping screenshots) is kept
+// once, remembering every file it was seen in and everyone seen with it.
+const dedupeShifts = (shifts: Shift[]) => {
+  const byKey = new Map<string, Shift>();
+  for (const shift of shifts) {
+    const key = getShiftKey(shift);
+    const existing = byKey.get(key);
+    byKey.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            source: mergeSources(existing.source, shift.source),
+            coworkers: mergeCoworkers(existing.coworkers, shift.coworkers),
+          }
+        : shift,
+    );
+  }
+  return [...byKey.values()].sort((a, b) =>
+    `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`),
+  );
+};
+
+const mergeYearInferences = (
+  results: ExtractionResult[],
+  shifts: Shift[],
+): YearInference => {
+  const inferences = results.map((r) => r.yearInference);
+  const candidates = [...new Set(inferences.flatMap((i) => i.candidates))].sort(
+    (a, b) => a - b,
+  );
+  const base = [...results].sort((a, b) => b.shifts.length - a.shifts.length)[0]
+    .yearInference;
+  // Files may disagree only because together they cross New Year; that is
+  // fine as long as one anchor year reproduces every date.
+  const consistentYear = candidates.find((year) =>
+    applyScheduleYear(shifts, year).every((s, i) => s.date === shifts[i].date),
+  );
+  return {
+    ...base,
+    year: consistentYear ?? base.year,
+    isAmbiguous:
+      consistentYear === undefined || inferences.some((i) => i.isAmbiguous),
+    crossesNewYear:
+      consistentYear !== undefined &&
+      applyScheduleYear(shifts, consistentYear).some(
+        (s) => s.date.slice(0, 4) !== String(consistentYear),
+      ),
+    candidates,
+  };
+};
+
+// Combines the extraction of several files into one result for the Review step.
+export const mergeExtractionResults = (
+  results: ExtractionResult[],
+): ExtractionResult => {
+  if (results.length === 1) return results[0];
+  const shifts = dedupeShifts(results.flatMap((r) => r.shifts));
+  return {
+    shifts,
+    yearInference: mergeYearInferences(results, shifts),
+    needsAttention: results.flatMap((r) => r.needsAttention || []),
+  };
+};
@@ -0,0 +1,85 @@
+import { LayoutProfile, Shift } from "../types";
+import { isValidDate } from "./shiftValidation";
+import { parseDateWithFormat, parseTime, parseTimeRange } from "./timeParsing";
+
+// Models sometimes answer with numbers, e.g. 9 for "09:00".
+const readText = (value: unknown) =>
+  typeof value === "number"
+    ? String(value)
+    : typeof value === "string"
+      ? value.trim()
+      : "";
+
+// Dates asked for as YYYY-MM-DD may come back as printed on the roster, with
+// or without the year; a missing year is settled later by year inference.
+const repairDate = (
+  text: string,
+  profile: LayoutProfile,
+  fallbackYear: number,
+) => {
+  const format = /^\d{4}\D/.test(text) ? "YYYY-MM-DD" : profile.dateFormat;
+  const tokens = format.toUpperCase().match(/D+|M+|Y+/g) || [];
+  const numbers = text.match(/\d+/g) || [];
+  const parsed = parseDateWithFormat(
+    text,
+    numbers.length < tokens.length
+      ? tokens.filter((token) => !token.startsWith("Y")).join(" ")
+      : format,
+    fallbackYear,
+  );
+  return parsed && isValidDate(parsed.date) ? parsed.date : null;
+};
+
+export interface RepairedShift<T extends Shift> {
+  shift: T;
+  problem: string | null;
+}
+
+/**
+ * Fixes the slips models make despite the requested formats: single-digit
+ * hours, dots instead of colons, a "9-16" range in one field and dates such as
+ * "17/08". Fields that still can't be read are left empty and the first one
+ * is described in `problem`. Missing day names are left for the caller to
+ * fill in once the year is known.
+ */
+export const repairExtractedShift = <T extends Shift>(
+  shift: T,
+  profile: LayoutProfile,
+  fallbackYear: number,
+): RepairedShift<T> => {
+  const dateText = readText(shift.date);
+  const startText = readText(shift.startTime);
+  const endText = readText(shift.endTime);
+  const date = dateText ? repairDate(dateText, profile, fallbackYear) : null;
+  const startTime =
+    parseTime(startText) ??
+    (parseTimeRange(startText) ?? parseTimeRange(endText))?.startTime;
+  const endTime =
+    parseTime(endText) ??
+    (parseTimeRange(endText) ?? parseTimeRange(startText))?.endTime;
+  const location = readText(shift.location);
+
+  const describe = (field: string, text: string) =>
+    text ? `The ${field} "${text}" couldn't be read.` : `No ${field} was read.`;
+  const problem = !date
+    ? describe("date", dateText)
+    : !startTime
+      ? describe("start time", startText)
+      : !endTime
+        ? describe("end time", endText)
+        : !location
+          ? describe("location", location)
+          : null;
+
+  return {
+    shift: {
+      ...shift,
+      date: date || "",
+      dayOfWeek: readText(shift.dayOfWeek),
+      startTime: startTime || "",
+      endTime: endTime || "",
+      location,
+    },
+    problem,
+  };
+};
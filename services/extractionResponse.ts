@@ -0,0 +1,123 @@
+import { ExtractionResult, LayoutProfile, Shift, SourceRegion } from "../types";
+import { applyScheduleYearToResult, inferScheduleYear } from "./scheduleYear";
+import { endsNextDay } from "./shiftTime";
+import { repairExtractedShift } from "./extractionRepair";
+import { getDayName } from "./layoutProfiles";
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const readName = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const readNames = (value: unknown) => {
+  if (!Array.isArray(value)) return undefined;
+  const names = [...new Set(value.map(readName).filter(Boolean))] as string[];
+  return names.length > 0 ? names : undefined;
+};
+
+// Models report boxes as [ymin, xmin, ymax, xmax] on a 0–1000 scale.
+const toSourceRegion = (box: unknown): SourceRegion | undefined => {
+  if (
+    !Array.isArray(box) ||
+    box.length !== 4 ||
+    !box.every((n) => typeof n === "number")
+  )
+    return undefined;
+  const [yMin, xMin, yMax, xMax] = box.map((n) => clamp(n / 1000));
+  if (xMax <= xMin || yMax <= yMin) return undefined;
+  return { x: xMin, y: yMin, width: xMax - xMin, height: yMax - yMin };
+};
+
+/**
+ * Turns the model's JSON answer into shifts: repairs malformed entries or sets
+ * them aside for the user to fix, marks overnight shifts, records where each
+ * shift came from and settles the year.
+ */
+export const parseExtractionResponse = (
+  responseText: string | undefined,
+  file: { name: string; type: string },
+  profile: LayoutProfile,
+  referenceDate: Date,
+): ExtractionResult => {
+  if (!responseText) {
+    return {
+      shifts: [],
+      yearInference: inferScheduleYear([], profile, undefined, referenceDate),
+    };
+  }
+
+  const parsedResponse = JSON.parse(responseText);
+  const shifts: (Shift & { page?: number; box?: unknown })[] =
+    parsedResponse.shifts || [];
+
+  console.log("Extracted shifts:", shifts);
+
+  const repaired = shifts.map((shift) =>
+    repairExtractedShift(shift, profile, referenceDate.getFullYear()),
+  );
+  repaired
+    .filter(({ problem }) => problem)
+    .forEach(({ shift, problem }) =>
+      console.warn("Shift needs attention:", problem, shift),
+    );
+
+  const isMultiPage = file.type === "application/pdf";
+  const toShift = ({
+    page,
+    box,
+    confidence,
+    matchedName,
+    employeeName,
+    coworkers,
+    ...shift
+  }: (typeof shifts)[number]): Shift => ({
+    ...shift,
+    endsNextDay: endsNextDay(shift.startTime, shift.endTime),
+    source: isMultiPage && page ? `${file.name} · page ${page}` : file.name,
+    // Boxes on PDF pages can't be shown on the preview.
+    sourceRegion: isMultiPage ? undefined : toSourceRegion(box),
+    confidence: typeof confidence === "number" ? clamp(confidence) : undefined,
+    matchedName: readName(matchedName),
+    employeeName: readName(employeeName),
+    coworkers: readNames(coworkers),
+  });
+  const validShifts = repaired
+    .filter(({ problem }) => !problem)
+    .map(({ shift }) => toShift(shift));
+  const attention = repaired.filter(({ problem }) => problem);
+
+  const yearOnRoster =
+    typeof parsedResponse.yearOnRoster === "number"
+      ? parsedResponse.yearOnRoster
+      : undefined;
+  const yearInference = inferScheduleYear(
+    validShifts,
+    profile,
+    yearOnRoster,
+    referenceDate,
+  );
+  console.log("Inferred schedule year:", yearInference);
+
+  // Shifts needing attention get the year too, so their dates are right once
+  // the remaining fields are fixed.
+  const dated = applyScheduleYearToResult(
+    validShifts,
+    attention.map(({ shift, problem }) => ({
+      shift: toShift(shift),
+      problem: problem!,
+    })),
+    yearInference.year,
+  );
+  const withDayName = (shift: Shift) =>
+    shift.dayOfWeek || !shift.date
+      ? shift
+      : { ...shift, dayOfWeek: getDayName(profile, shift.date) };
+  return {
+    shifts: dated.shifts.map(withDayName),
+    yearInference,
+    needsAttention: dated.needsAttention.map((item) => ({
+      ...item,
+      shift: withDayName(item.shift),
+    })),
+  };
+};
@@ -0,0 +1,136 @@
+import {
+  BusyInterval,
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarListEntry,
+  CalendarProvider,
+} from "../types";
+
+// Private extended property set on every event this tool creates.
+const SHIFT_KEY_PROPERTY = "shiftSyncKey";
+
+const toGoogleEvent = (event: CalendarEventInput) => ({
+  summary: event.summary,
+  description: event.description,
+  location: event.location,
+  start: { dateTime: event.start, timeZone: event.timeZone },
+  end: { dateTime: event.end, timeZone: event.timeZone },
+  ...(event.colorId ? { colorId: event.colorId } : {}),
+  reminders:
+    event.reminderMinutes.length > 0
+      ? {
+          useDefault: false,
+          overrides: event.reminderMinutes.map((minutes) => ({
+            method: "popup",
+            minutes,
+          })),
+        }
+      : { useDefault: true },
+  extendedProperties: { private: { [SHIFT_KEY_PROPERTY]: event.shiftKey } },
+});
+
+const fromGoogleEvent = (event: any): CalendarEvent => ({
+  id: event.id,
+  summary: event.summary || "",
+  start: event.start.dateTime || event.start.date,
+  end: event.end.dateTime || event.end.date,
+  isAllDay: !event.start.dateTime,
+  shiftKey: event.extendedProperties?.private?.[SHIFT_KEY_PROPERTY],
+  isInvitation:
+    !event.organizer?.self &&
+    Boolean(event.attendees?.some((a: any) => a.self)),
+});
+
+// Uses the gapi client loaded and authorised in App.
+export const createGoogleCalendarProvider = (): CalendarProvider => ({
+  listCalendars: async () => {
+    const response = await window.gapi.client.calendar.calendarList.list();
+    return response.result.items.map((cal: any): CalendarListEntry => ({
+      id: cal.id,
+      summary: cal.summary,
+      canWrite: cal.accessRole === "owner" || cal.accessRole === "writer",
+    }));
+  },
+
+  listEvents: async (calendarId, timeMin, timeMax) => {
+    const events: CalendarEvent[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await window.gapi.client.calendar.events.list({
+        calendarId,
+        timeMin,
+        timeMax,
+        singleEvents: true,
+        orderBy: "startTime",
+        pageToken,
+      });
+      events.push(...response.result.items.map(fromGoogleEvent));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+    return events;
+  },
+
+  // Free/busy periods are always timed; all-day events come back as 24 hours.
+  queryFreeBusy: async (calendarIds, timeMin, timeMax) => {
+    if (calendarIds.length === 0) return [];
+    const response = await window.gapi.client.calendar.freebusy.query({
+      resource: {
+        timeMin,
+        timeMax,
+        items: calendarIds.map((id) => ({ id })),
+      },
+    });
+    return calendarIds.flatMap((calendarId): BusyInterval[] => {
+      const calendar = response.result.calendars?.[calendarId];
+      if (calendar?.errors?.length) {
+        console.warn(`No free/busy for ${calendarId}:`, calendar.errors);
+      }
+      return (calendar?.busy || []).map((period: any) => ({
+        calendarId,
+        start: period.start,
+        end: period.end,
+        isAllDay: false,
+      }));
+    });
+  },
+
+  createEvent: async (calendarId, event) => {
+    const response = await window.gapi.client.calendar.events.insert({
+      calendarId,
+      resource: toGoogleEvent(event),
+    });
+    return response.result.id;
+  },
+
+  updateEvent: async (calendarId, eventId, event) => {
+    await window.gapi.client.calendar.events.patch({
+      calendarId,
+      eventId,
+      resource: toGoogleEvent(event),
+    });
+  },
+
+  deleteEvent: async (calendarId, eventId) => {
+    await window.gapi.client.calendar.events.delete({ calendarId, eventId });
+  },
+
+  // Patching attendees replaces the whole list, so read it first.
+  declineEvent: async (calendarId, eventId) => {
+    const response = await window.gapi.client.calendar.events.get({
+      calendarId,
+      eventId,
+    });
+    await window.gapi.client.calendar.events.patch({
+      calendarId,
+      eventId,
+      sendUpdates: "all",
+      resource: {
+        attendees: (response.result.attendees || []).map((attendee: any) =>
+          attendee.self
+            ? { ...attendee, responseStatus: "declined" }
+            : attendee,
+        ),
+      },
+    });
+  },
+});
@@ -0,0 +1,180 @@
+import {
+  BusyInterval,
+  CalendarEvent,
+  CalendarEventInput,
+  CalendarListEntry,
+  CalendarProvider,
+} from "../types";
+
+export const DEFAULT_GRAPH_URL = "https://graph.microsoft.com/v1.0";
+
+// Graph has no private properties like Google; a named single-value extended
+// property under our own GUID plays the same role.
+const SHIFT_KEY_PROPERTY_ID =
+  "String {6f1c2a8e-3b7d-4e59-9a40-2d8c5e1b7f63} Name shiftSyncKey";
+
+interface GraphProviderOptions {
+  baseUrl?: string;
+  getAccessToken: () => Promise<string>;
+}
+
+// Outlook colours events by category rather than per event, so colorId is
+// not sent. Graph supports a single reminder; the earliest one is used.
+const toGraphEvent = (event: CalendarEventInput) => ({
+  subject: event.summary,
+  body: { contentType: "text", content: event.description },
+  location: { displayName: event.location },
+  start: { dateTime: event.start, timeZone: event.timeZone },
+  end: { dateTime: event.end, timeZone: event.timeZone },
+  isReminderOn: event.reminderMinutes.length > 0,
+  ...(event.reminderMinutes.length > 0
+    ? { reminderMinutesBeforeStart: Math.max(...event.reminderMinutes) }
+    : {}),
+  singleValueExtendedProperties: [
+    { id: SHIFT_KEY_PROPERTY_ID, value: event.shiftKey },
+  ],
+});
+
+// Events are requested in UTC; Graph omits the zone designator.
+const toIsoUtc = (dateTime: string) =>
+  new Date(`${dateTime.replace(/\.\d+$/, "")}Z`).toISOString();
+
+const fromGraphEvent = (event: any): CalendarEvent => ({
+  id: event.id,
+  summary: event.subject || "",
+  start: event.isAllDay
+    ? event.start.dateTime.slice(0, 10)
+    : toIsoUtc(event.start.dateTime),
+  end: event.isAllDay
+    ? event.end.dateTime.slice(0, 10)
+    : toIsoUtc(event.end.dateTime),
+  isAllDay: Boolean(event.isAllDay),
+  isInvitation: event.isOrganizer === false,
+  shiftKey: event.singleValueExtendedProperties?.find(
+    (p: any) => p.id.toLowerCase() === SHIFT_KEY_PROPERTY_ID.toLowerCase(),
+  )?.value,
+});
+
+/**
+ * Microsoft 365 / Outlook calendars through the Graph REST API. baseUrl can
+ * point at a mock server for testing.
+ */
+export const createGraphCalendarProvider = ({
+  baseUrl = DEFAULT_GRAPH_URL,
+  getAccessToken,
+}: GraphProviderOptions): CalendarProvider => {
+  const request = async (
+    pathOrUrl: string,
+    init: {
+      method?: string;
+      body?: unknown;
+      headers?: Record<string, string>;
+    } = {},
+  ) => {
+    const url = pathOrUrl.startsWith("http")
+      ? pathOrUrl
+      : `${baseUrl.replace(/\/$/, "")}${pathOrUrl}`;
+    const response = await fetch(url, {
+      method: init.method || "GET",
+      headers: {
+        Authorization: `Bearer ${await getAccessToken()}`,
+        ...(init.body ? { "Content-Type": "application/json" } : {}),
+        ...init.headers,
+      },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+    if (!response.ok) {
+      const details = await response.json().catch(() => null);
+      const message =
+        details?.error?.message ||
+        `Microsoft Graph request failed: ${response.status} ${response.statusText}`;
+      throw Object.assign(new Error(message), { status: response.status });
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  const listCalendarView = async (
+    calendarId: string,
+    timeMin: string,
+    timeMax: string,
+  ) => {
+    const params = new URLSearchParams({
+      startDateTime: timeMin,
+      endDateTime: timeMax,
+      $select: "id,subject,start,end,isAllDay,isOrganizer,showAs",
+      $expand: `singleValueExtendedProperties($filter=id eq '${SHIFT_KEY_PROPERTY_ID}')`,
+      $top: "100",
+    });
+    const events: any[] = [];
+    let next: string | undefined =
+      `/me/calendars/${encodeURIComponent(calendarId)}/calendarView?${params}`;
+    while (next) {
+      const result = await request(next, {
+        headers: { Prefer: 'outlook.timezone="UTC"' },
+      });
+      events.push(...result.value);
+      next = result["@odata.nextLink"];
+    }
+    return events;
+  };
+
+  return {
+    listCalendars: async () => {
+      const result = await request("/me/calendars?$select=id,name,canEdit");
+      return result.value.map((cal: any): CalendarListEntry => ({
+        id: cal.id,
+        summary: cal.name,
+        canWrite: Boolean(cal.canEdit),
+      }));
+    },
+
+    listEvents: async (calendarId, timeMin, timeMax) =>
+      (await listCalendarView(calendarId, timeMin, timeMax)).map(
+        fromGraphEvent,
+      ),
+
+    // Graph's getSchedule works on mailboxes, not calendars, so busy time is
+    // read from each calendar's events, skipping those shown as free.
+    queryFreeBusy: async (calendarIds, timeMin, timeMax) => {
+      const calendars = await Promise.all(
+        calendarIds.map(async (calendarId) =>
+          (await listCalendarView(calendarId, timeMin, timeMax))
+            .filter((event) => event.showAs !== "free")
+            .map((event): BusyInterval => {
+              const { start, end, isAllDay } = fromGraphEvent(event);
+              return { calendarId, start, end, isAllDay };
+            }),
+        ),
+      );
+      return calendars.flat();
+    },
+
+    createEvent: async (calendarId, event) => {
+      const result = await request(
+        `/me/calendars/${encodeURIComponent(calendarId)}/events`,
+        { method: "POST", body: toGraphEvent(event) },
+      );
+      return result.id;
+    },
+
+    updateEvent: async (_calendarId, eventId, event) => {
+      await request(`/me/events/${encodeURIComponent(eventId)}`, {
+        method: "PATCH",
+        body: toGraphEvent(event),
+      });
+    },
+
+    deleteEvent: async (_calendarId, eventId) => {
+      await request(`/me/events/${encodeURIComponent(eventId)}`, {
+        method: "DELETE",
+      });
+    },
+
+    declineEvent: async (_calendarId, eventId) => {
+      await request(`/me/events/${encodeURIComponent(eventId)}/decline`, {
+        method: "POST",
+        body: { sendResponse: true },
+      });
+    },
+  };
+};
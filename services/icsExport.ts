@@ -0,0 +1,221 @@
+import { CalendarEventInput, EventTemplate, Shift } from "../types";
+import { buildShiftEventInput } from "./eventTemplate";
+import {
+  findOffsetTransitions,
+  getBrowserTimeZone,
+  getOffsetMinutes,
+} from "./timeZones";
+
+const PRODUCT_ID = "-//Shift Sync AI//Shift Extractor//EN";
+const UID_DOMAIN = "shift-sync-ai";
+const MINUTE_MS = 60 * 1000;
+
+const pad = (n: number) => Math.abs(n).toString().padStart(2, "0");
+
+// RFC 5545 §3.3.11: backslash, semicolon, comma and newlines are escaped.
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded, without splitting
+// a multi-byte character.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+};
+
+// "YYYY-MM-DDTHH:MM:SS" to the basic format "YYYYMMDDTHHMMSS".
+const formatLocalDateTime = (localDateTime: string) =>
+  localDateTime.replace(/[-:]/g, "");
+
+const formatUtcDateTime = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? "-" : "+"}${pad(Math.trunc(minutes / 60))}${pad(minutes % 60)}`;
+
+/**
+ * Builds a VTIMEZONE with the real transitions for the years the shifts fall
+ * in, derived from the browser's time zone database. Every event time must
+ * come after an observance's onset, so the list opens with the last change
+ * of the year before, or with the offset in force since 1970 when there was
+ * none.
+ */
+const buildTimeZone = (timeZone: string, years: number[]) => {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  const firstYear = Math.min(...years);
+  const lastYear = Math.max(...years);
+  const opening = findOffsetTransitions(timeZone, firstYear - 1).slice(-1);
+  const transitions = [...opening];
+  for (let year = firstYear; year <= lastYear; year++) {
+    transitions.push(...findOffsetTransitions(timeZone, year));
+  }
+  if (opening.length === 0) {
+    const offset = formatOffset(
+      getOffsetMinutes(timeZone, Date.UTC(firstYear, 0, 1)),
+    );
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD",
+    );
+  }
+  for (const t of transitions) {
+    const kind = t.to > t.from ? "DAYLIGHT" : "STANDARD";
+    // DTSTART is the local wall-clock time just before the change.
+    const local = new Date(t.instant + t.from * MINUTE_MS);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtcDateTime(local).replace("Z", "")}`,
+      `TZOFFSETFROM:${formatOffset(t.from)}`,
+      `TZOFFSETTO:${formatOffset(t.to)}`,
+      `END:${kind}`,
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+};
+
+// FNV-1a; only needs to be stable, not secure.
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (const char of text) {
+    h ^= char.codePointAt(0)!;
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+};
+
+/**
+ * A shift's UID is its date, its position among that person's shifts on the
+ * day and a hash of the name. Re-importing a revised roster therefore updates
+ * the existing event even when the times or location changed.
+ */
+const buildUids = (shifts: Shift[], userName: string) => {
+  const owner = hash(userName.trim().toLowerCase());
+  const sorted = [...shifts].sort((a, b) =>
+    `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`),
+  );
+  const uids = new Map<Shift, string>();
+  sorted.forEach((shift, i) => {
+    const position = sorted
+      .slice(0, i)
+      .filter((other) => other.date === shift.date).length;
+    uids.set(shift, `shift-${shift.date}-${position}-${owner}@${UID_DOMAIN}`);
+  });
+  return uids;
+};
+
+// Each VEVENT carries the shift key so CalDAV servers round-trip it.
+export const SHIFT_KEY_ICS_PROPERTY = "X-SHIFT-SYNC-KEY";
+
+const yearsOf = (events: CalendarEventInput[], timeZone: string) =>
+  [
+    ...new Set(
+      events
+        .filter((e) => e.timeZone === timeZone)
+        .flatMap((e) => [e.start, e.end].map((d) => Number(d.slice(0, 4)))),
+    ),
+  ].sort((a, b) => a - b);
+
+interface IcsDocumentOptions {
+  now?: Date;
+  sequence?: number;
+  // CalDAV object resources must not carry a METHOD (RFC 4791 §4.1).
+  method?: string | null;
+}
+
+export const buildIcsDocument = (
+  entries: { uid: string; event: CalendarEventInput }[],
+  {
+    now = new Date(),
+    sequence = 0,
+    method = "PUBLISH",
+  }: IcsDocumentOptions = {},
+) => {
+  const events = entries.map((e) => e.event);
+  const timeZones = [...new Set(events.map((e) => e.timeZone))];
+  const stamp = formatUtcDateTime(now);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    ...(method ? [`METHOD:${method}`] : []),
+    ...(timeZones.length === 1 ? [`X-WR-TIMEZONE:${timeZones[0]}`] : []),
+    ...timeZones.flatMap((tz) => buildTimeZone(tz, yearsOf(events, tz))),
+  ];
+  for (const { uid, event } of entries) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTART;TZID=${event.timeZone}:${formatLocalDateTime(event.start)}`,
+      `DTEND;TZID=${event.timeZone}:${formatLocalDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      `LOCATION:${escapeText(event.location)}`,
+      "STATUS:CONFIRMED",
+      "TRANSP:OPAQUE",
+      `${SHIFT_KEY_ICS_PROPERTY}:${escapeText(event.shiftKey)}`,
+    );
+    for (const minutes of event.reminderMinutes) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-PT${minutes}M`,
+        "END:VALARM",
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export const buildIcsCalendar = (
+  shifts: Shift[],
+  template: EventTemplate,
+  userName: string,
+  timeZone: string = getBrowserTimeZone(),
+  now: Date = new Date(),
+) => {
+  const uids = buildUids(shifts, userName);
+  return buildIcsDocument(
+    shifts.map((shift) => ({
+      uid: uids.get(shift)!,
+      event: buildShiftEventInput(template, shift, timeZone),
+    })),
+    {
+      now,
+      // Clients keep the copy with the higher SEQUENCE, so later exports win.
+      sequence: Math.floor(now.getTime() / MINUTE_MS),
+    },
+  );
+};
@@ -0,0 +1,72 @@
+import { ImportRecord } from "../types";
+
+const DB_NAME = "shiftSync";
+const DB_VERSION = 1;
+const STORE_NAME = "imports";
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () =>
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = makeRequest(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Newest first.
+export const listImportRecords = async () =>
+  (
+    await runRequest<ImportRecord[]>("readonly", (store) => store.getAll())
+  ).sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+
+// Adds the record, or replaces the one with the same id.
+export const saveImportRecord = async (record: ImportRecord) => {
+  await runRequest("readwrite", (store) => store.put(record));
+};
+
+export const deleteImportRecord = async (id: string) => {
+  await runRequest("readwrite", (store) => store.delete(id));
+};
+
+const THUMBNAIL_SIZE = 240;
+
+// A small JPEG of an uploaded image; other files have no thumbnail.
+export const createThumbnail = async (file: File) => {
+  if (!file.type.startsWith("image/")) return null;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(
+      1,
+      THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas
+      .getContext("2d")!
+      .drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } catch (e) {
+    console.warn("Could not create a thumbnail:", e);
+    return null;
+  }
+};
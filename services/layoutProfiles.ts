@@ -0,0 +1,311 @@
+import { LayoutProfile, TimeRangeExample } from "../types";
+
+const STORAGE_KEY = "layoutProfiles";
+
+export const ENGLISH_DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export const DEFAULT_LAYOUT_PROFILE: LayoutProfile = {
+  id: "default",
+  name: "ASICS / ORIGINALS (Hebrew)",
+  locations: ["ASICS", "ORIGINALS"],
+  dateFormat: "DD.MM.YY",
+  language: "Hebrew",
+  dayNames: ["ראשון", "שני", "שלישי", "רביעי", "חמישי", "שישי", "שבת"],
+  timeRangeExamples: [
+    { raw: "15:30-22:00", startTime: "15:30", endTime: "22:00" },
+    { raw: "9-16", startTime: "09:00", endTime: "16:00" },
+    { raw: "12-22", startTime: "12:00", endTime: "22:00" },
+  ],
+};
+
+const isStringArray = (value: any): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+export const isLayoutProfile = (value: any): value is LayoutProfile =>
+  value &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  isStringArray(value.locations) &&
+  typeof value.dateFormat === "string" &&
+  typeof value.language === "string" &&
+  isStringArray(value.dayNames) &&
+  value.dayNames.length === 7 &&
+  Array.isArray(value.timeRangeExamples) &&
+  value.timeRangeExamples.every(
+    (ex: any) =>
+      ex &&
+      typeof ex.raw === "string" &&
+      typeof ex.startTime === "string" &&
+      typeof ex.endTime === "string",
+  );
+
+// The built-in profile always comes first and is never persisted.
+export const loadLayoutProfiles = (): LayoutProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    const custom = Array.isArray(stored)
+      ? stored.filter(
+          (p: any) => isLayoutProfile(p) && p.id !== DEFAULT_LAYOUT_PROFILE.id,
+        )
+      : [];
+    return [DEFAULT_LAYOUT_PROFILE, ...custom];
+  } catch (e) {
+    console.warn("Ignoring unreadable layout profiles:", e);
+    return [DEFAULT_LAYOUT_PROFILE];
+  }
+};
+
+export const saveLayoutProfiles = (profiles: LayoutProfile[]) => {
+  const custom = profiles.filter((p) => p.id !== DEFAULT_LAYOUT_PROFILE.id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+};
+
+export const createLayoutProfile = (base: LayoutProfile): LayoutProfile => ({
+  ...base,
+  id: `profile-${Date.now().toString(36)}`,
+  name: `${base.name} (copy)`,
+  locations: [...base.locations],
+  dayNames: [...base.dayNames],
+  timeRangeExamples: base.timeRangeExamples.map((ex) => ({ ...ex })),
+});
+
+export const validateLayoutProfile = (
+  profile: LayoutProfile,
+): string | null => {
+  if (!profile.name.trim()) return "Profile name is required.";
+  if (profile.locations.length === 0)
+    return "At least one location column is required.";
+  if (!profile.dateFormat.trim()) return "Date format is required.";
+  if (profile.dayNames.some((d) => !d.trim()))
+    return "All seven day names are required.";
+  return null;
+};
+
+// One example per line, written as "raw => HH:MM-HH:MM".
+export const formatTimeRangeExamples = (examples: TimeRangeExample[]) =>
+  examples.map((ex) => `${ex.raw} => ${ex.startTime}-${ex.endTime}`).join("\n");
+
+export const parseTimeRangeExamples = (text: string): TimeRangeExample[] =>
+  text
+    .split("\n")
+    .map((line) =>
+      line.match(/^\s*(.+?)\s*=>\s*(\d{2}:\d{2})\s*-\s*(\d{2}:\d{2})\s*$/),
+    )
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map((m) => ({ raw: m[1], startTime: m[2], endTime: m[3] }));
+
+// The roster's own name for the weekday of a YYYY-MM-DD date.
+export const getDayName = (profile: LayoutProfile, date: string) =>
+  profile.dayNames[new Date(`${date}T12:00:00`).getDay()] || "";
+
+const describeDayNames = (profile: LayoutProfile) =>
+  profile.dayNames
+    .map((name, i) => `${name}=${ENGLISH_DAY_NAMES[i]}`)
+    .join(", ");
+
+const quoteList = (values: string[]) =>
+  values.map((v) => `"${v}"`).join(values.length === 2 ? " and " : ", ");
+
+// The part of the task that says whose shifts to find; null means everyone's.
+const describeTarget = (names: string[] | null, language: string) => {
+  if (!names) {
+    return `- Find ALL shifts of EVERY employee named on the schedule
+- For each shift, report as employeeName the name exactly as written in the cell; a cell naming several people is one shift per person
+- Be thorough - scan the entire image and do not skip anyone`;
+  }
+  const who =
+    names.length > 1
+      ? `this person, who may appear under any of these names: ${quoteList(names)}`
+      : `the name "${names[0]}"`;
+  return `- Find ALL shifts specifically assigned to ${who} (could be in ${language} or English)
+- The name might appear with slight variations or partial matches
+- For each shift, report as matchedName the name from ${quoteList(names)} that the cell matched, copied exactly
+- For each shift, list as coworkers the other people working at the same location on the same date at overlapping times, with their names exactly as written; leave the list empty if there are none
+- Be thorough - scan the entire image for any occurrence of the name`;
+};
+
+export const buildExtractionPrompt = (
+  profile: LayoutProfile,
+  names: string[] | null,
+  referenceYear: number,
+) => {
+  const examples = profile.timeRangeExamples
+    .map(
+      (ex) =>
+        `- "${ex.raw}" → startTime: "${ex.startTime}", endTime: "${ex.endTime}"`,
+    )
+    .join("\n");
+
+  return `You are analyzing a work schedule table image with ${profile.language} text (names may also appear in English). The image shows a weekly schedule with:
+
+1. A date column (dates are written as ${profile.dateFormat}) - the year may or may not be printed
+2. ${profile.language} days of the week (${describeDayNames(profile)})
+3. Location columns: ${quoteList(profile.locations)}
+4. Employee names scattered throughout the cells
+5. Time ranges such as ${profile.timeRangeExamples.map((ex) => `"${ex.raw}"`).join(" or ") || '"09:00-17:00"'}
+
+Your task:
+${describeTarget(names, profile.language)}
+- Extract the date from the date column (convert ${profile.dateFormat} format to YYYY-MM-DD). Use the year printed on the schedule; if no year is printed anywhere, use ${referenceYear}
+- If a year is printed anywhere on the schedule (in the dates or a heading), report it as yearOnRoster; otherwise leave yearOnRoster out
+- Extract the day of week exactly as written on the schedule (one of: ${profile.dayNames.join(", ")})
+- Extract start and end times (convert to HH:MM format, assume 24-hour format)
+- Some shifts end after midnight (e.g. "20-02" runs from 20:00 to 02:00 the next day). Keep such times exactly as written; do not swap or change them
+- Extract location from column headers (one of: ${profile.locations.join(", ")})
+- Look carefully at colored cells as they often contain the employee assignments
+- If the document has several pages, report the 1-based page number each shift was found on
+- For each shift, give the box of the cell where the name appears as [ymin, xmin, ymax, xmax], scaled from 0 to 1000 over the image (or page)
+- For each shift, rate your confidence from 0 to 1 that the date, times and location are all read correctly; use lower values for blurry, cramped or ambiguous cells
+${examples ? `\nExample of time conversion:\n${examples}` : ""}`;
+};
+
+const describeDayOfWeekField = (profile: LayoutProfile) =>
+  `The ${profile.language} day of the week from the schedule (e.g., ${profile.dayNames.map((d) => `'${d}'`).join(", ")}).`;
+
+const COWORKERS_FIELD_DESCRIPTION =
+  "Names of the other people at the same location on the same date at overlapping times, as written.";
+
+const EMPLOYEE_NAME_FIELD_DESCRIPTION =
+  "The employee's name exactly as written in the cell.";
+
+const describeMatchedNameField = (names: string[]) =>
+  `Which of the user's names the shift was found under, copied exactly (one of ${names.map((n) => `'${n}'`).join(", ")}).`;
+
+const describeLocationField = (profile: LayoutProfile) =>
+  `The location/store of the shift from the column header (e.g., ${profile.locations.map((l) => `'${l}'`).join(" or ")}).`;
+
+export interface SchemaDialect {
+  // Gemini's `Type` enum, or JSON Schema's type names.
+  types: Record<"OBJECT" | "ARRAY" | "STRING" | "INTEGER" | "NUMBER", string>;
+  // Gemini's own keywords, propertyOrdering and the enum format, which
+  // strict JSON Schema validators reject.
+  isGemini: boolean;
+}
+
+const JSON_SCHEMA_DIALECT: SchemaDialect = {
+  types: {
+    OBJECT: "object",
+    ARRAY: "array",
+    STRING: "string",
+    INTEGER: "integer",
+    NUMBER: "number",
+  },
+  isGemini: false,
+};
+
+// The answer every AI engine is asked for; see parseExtractionResponse.
+export const buildResponseSchema = (
+  profile: LayoutProfile,
+  names: string[] | null,
+  referenceYear: number,
+  { types, isGemini }: SchemaDialect = JSON_SCHEMA_DIALECT,
+) => ({
+  type: types.OBJECT,
+  properties: {
+    shifts: {
+      type: types.ARRAY,
+      items: {
+        type: types.OBJECT,
+        properties: {
+          date: {
+            type: types.STRING,
+            description: `The full date of the shift in YYYY-MM-DD format. Extract from the ${profile.dateFormat} date column, using the year printed on the schedule or ${referenceYear} if none is printed.`,
+          },
+          dayOfWeek: {
+            type: types.STRING,
+            description: describeDayOfWeekField(profile),
+          },
+          startTime: {
+            type: types.STRING,
+            description: "The shift's start time in 24-hour HH:MM format.",
+          },
+          endTime: {
+            type: types.STRING,
+            description:
+              "The shift's end time in 24-hour HH:MM format. For shifts ending after midnight this is the time on the next day (e.g., '02:00').",
+          },
+          page: {
+            type: types.INTEGER,
+            description:
+              "The 1-based page number the shift was found on. Use 1 for a single image.",
+          },
+          location: {
+            type: types.STRING,
+            ...(isGemini ? { format: "enum" } : {}),
+            enum: profile.locations,
+            description: describeLocationField(profile),
+          },
+          ...(names
+            ? {
+                matchedName: {
+                  type: types.STRING,
+                  ...(isGemini ? { format: "enum" } : {}),
+                  enum: names,
+                  description: describeMatchedNameField(names),
+                },
+                coworkers: {
+                  type: types.ARRAY,
+                  items: { type: types.STRING },
+                  description: COWORKERS_FIELD_DESCRIPTION,
+                },
+              }
+            : {
+                employeeName: {
+                  type: types.STRING,
+                  description: EMPLOYEE_NAME_FIELD_DESCRIPTION,
+                },
+              }),
+          box: {
+            type: types.ARRAY,
+            items: { type: types.INTEGER },
+            description:
+              "The cell the shift was read from as [ymin, xmin, ymax, xmax], scaled 0-1000.",
+          },
+          confidence: {
+            type: types.NUMBER,
+            description:
+              "0 to 1, how confident you are that this shift was read correctly.",
+          },
+        },
+        required: [
+          "date",
+          "startTime",
+          "endTime",
+          "location",
+          "dayOfWeek",
+          ...(names ? [] : ["employeeName"]),
+        ],
+        ...(isGemini
+          ? {
+              propertyOrdering: [
+                "date",
+                "dayOfWeek",
+                "startTime",
+                "endTime",
+                "location",
+                ...(names ? ["matchedName", "coworkers"] : ["employeeName"]),
+                "page",
+                "box",
+                "confidence",
+              ],
+            }
+          : {}),
+      },
+    },
+    yearOnRoster: {
+      type: types.INTEGER,
+      description:
+        "The 4-digit year printed anywhere on the schedule. Omit if no year is printed.",
+    },
+  },
+  required: ["shifts"],
+  ...(isGemini ? { propertyOrdering: ["yearOnRoster", "shifts"] } : {}),
+});
@@ -0,0 +1,58 @@
+import {
+  AccountInfo,
+  IPublicClientApplication,
+  InteractionRequiredAuthError,
+  PublicClientApplication,
+} from "@azure/msal-browser";
+
+const MICROSOFT_CLIENT_ID = import.meta.env.VITE_MICROSOFT_CLIENT_ID;
+const SCOPES = ["Calendars.ReadWrite"];
+
+let clientPromise: Promise<IPublicClientApplication> | null = null;
+
+const getClient = () => {
+  if (!MICROSOFT_CLIENT_ID) {
+    throw new Error(
+      "Microsoft sign-in is not configured. Set VITE_MICROSOFT_CLIENT_ID to an Azure app registration's client ID.",
+    );
+  }
+  clientPromise ??= PublicClientApplication.createPublicClientApplication({
+    auth: {
+      clientId: MICROSOFT_CLIENT_ID,
+      authority: "https://login.microsoftonline.com/common",
+      redirectUri: window.location.origin,
+    },
+    cache: { cacheLocation: "localStorage" },
+  });
+  return clientPromise;
+};
+
+export const isMicrosoftSignInConfigured = () => Boolean(MICROSOFT_CLIENT_ID);
+
+// The account from an earlier session, if MSAL still has it cached.
+export const getMicrosoftAccount = async (): Promise<AccountInfo | null> =>
+  (await getClient()).getAllAccounts()[0] ?? null;
+
+export const signInToMicrosoft = async () => {
+  const client = await getClient();
+  const result = await client.loginPopup({ scopes: SCOPES });
+  return result.account;
+};
+
+export const signOutOfMicrosoft = async () => {
+  await (await getClient()).clearCache();
+};
+
+export const getMicrosoftAccessToken = async () => {
+  const client = await getClient();
+  const account = client.getAllAccounts()[0];
+  if (!account) throw new Error("Please sign in to Microsoft first.");
+  try {
+    const result = await client.acquireTokenSilent({ scopes: SCOPES, account });
+    return result.accessToken;
+  } catch (e) {
+    if (!(e instanceof InteractionRequiredAuthError)) throw e;
+    const result = await client.acquireTokenPopup({ scopes: SCOPES, account });
+    return result.accessToken;
+  }
+};
@@ -0,0 +1,267 @@
+// Hebrew consonants in Latin letters. א, ו, ה, י and ע are handled as vowels
+// or consonants depending on where they appear in the word.
+const HEBREW_TO_LATIN: Record<string, string> = {
+  ב: "v",
+  ג: "g",
+  ד: "d",
+  ז: "z",
+  ח: "ch",
+  ט: "t",
+  כ: "ch",
+  ך: "ch",
+  ל: "l",
+  מ: "m",
+  ם: "m",
+  נ: "n",
+  ן: "n",
+  ס: "s",
+  פ: "f",
+  ף: "f",
+  צ: "tz",
+  ץ: "tz",
+  ק: "k",
+  ר: "r",
+  ש: "sh",
+  ת: "t",
+};
+
+// Letters pronounced differently at the start of a word (no dagesh marks).
+const HEBREW_WORD_START: Record<string, string> = { ב: "b", כ: "k", פ: "p" };
+
+// Letters followed by a geresh (׳ or ') for sounds Hebrew lacks.
+const HEBREW_WITH_GERESH: Record<string, string> = {
+  ג: "j",
+  ז: "zh",
+  צ: "ch",
+  ת: "th",
+};
+
+const GERESH = /['׳]/;
+
+const HEBREW_FINAL_FORMS: Record<string, string> = {
+  כ: "ך",
+  מ: "ם",
+  נ: "ן",
+  פ: "ף",
+  צ: "ץ",
+};
+
+// Longest spellings first, so "sh" wins over "s".
+const LATIN_TO_HEBREW: [string, string][] = [
+  ["tch", "צ׳"],
+  ["sh", "ש"],
+  ["ch", "ח"],
+  ["kh", "ח"],
+  ["tz", "צ"],
+  ["ts", "צ"],
+  ["th", "ת"],
+  ["ph", "פ"],
+  ["zh", "ז׳"],
+  ["j", "ג׳"],
+  ["b", "ב"],
+  ["c", "ק"],
+  ["d", "ד"],
+  ["f", "פ"],
+  ["g", "ג"],
+  ["h", "ה"],
+  ["k", "ק"],
+  ["l", "ל"],
+  ["m", "מ"],
+  ["n", "נ"],
+  ["p", "פ"],
+  ["q", "ק"],
+  ["r", "ר"],
+  ["s", "ס"],
+  ["t", "ת"],
+  ["v", "ב"],
+  ["w", "ו"],
+  ["x", "קס"],
+  ["y", "י"],
+  ["z", "ז"],
+];
+
+const isHebrew = (text: string) => /[א-ת]/.test(text);
+
+// Niqqud and cantillation marks.
+const HEBREW_MARKS = /[\u0591-\u05c7]/g;
+
+const capitalize = (word: string) =>
+  word.charAt(0).toUpperCase() + word.slice(1);
+
+const hebrewWordToLatin = (word: string) => {
+  const letters = [...word.replace(HEBREW_MARKS, "")];
+  let result = "";
+  // Unvoweled Hebrew drops most vowels; put an "a" between two consonants.
+  let lastWasConsonant = false;
+  const addConsonant = (sound: string) => {
+    if (lastWasConsonant) result += "a";
+    result += sound;
+    lastWasConsonant = true;
+  };
+  const addVowel = (sound: string) => {
+    result += sound;
+    lastWasConsonant = false;
+  };
+
+  letters.forEach((letter, i) => {
+    if (GERESH.test(letter)) return;
+    const isFirst = i === 0;
+    const isLast = i === letters.length - 1;
+    const next = letters[i + 1];
+    if (next && GERESH.test(next) && HEBREW_WITH_GERESH[letter]) {
+      addConsonant(HEBREW_WITH_GERESH[letter]);
+      return;
+    }
+    switch (letter) {
+      case "א":
+      case "ע":
+        if (isFirst || lastWasConsonant) addVowel("a");
+        return;
+      case "ה":
+        if (isLast) addVowel(lastWasConsonant ? "a" : "");
+        else addConsonant("h");
+        return;
+      case "ו":
+        if (isFirst || next === "ו" || letters[i - 1] === "ו") {
+          if (letters[i - 1] !== "ו") addConsonant("v");
+        } else addVowel("o");
+        return;
+      case "י":
+        if (isFirst || next === "י" || letters[i - 1] === "י") {
+          if (letters[i - 1] !== "י") addConsonant("y");
+        } else addVowel("i");
+        return;
+    }
+    const sound =
+      (isFirst && HEBREW_WORD_START[letter]) || HEBREW_TO_LATIN[letter];
+    if (sound) addConsonant(sound);
+  });
+  return capitalize(result);
+};
+
+const latinWordToHebrew = (word: string) => {
+  const text = word.toLowerCase().replace(/[^a-z]/g, "");
+  let result = "";
+  let i = 0;
+  while (i < text.length) {
+    const isFirst = i === 0;
+    const rest = text.slice(i);
+    // Vowel pairs read as one sound.
+    const pair = rest.match(/^(ee|ei|ai|ay|ey|ie|oo|ou)/)?.[0];
+    if (pair) {
+      result += (isFirst ? "א" : "") + (pair.includes("o") ? "ו" : "י");
+      i += 2;
+      continue;
+    }
+    const letter = text[i];
+    const isLast = i === text.length - 1;
+    if ("ae".includes(letter)) {
+      if (isFirst) result += "א";
+      else if (isLast) result += "ה";
+    } else if ("iou".includes(letter)) {
+      result += (isFirst ? "א" : "") + (letter === "i" ? "י" : "ו");
+    } else if (letter === "v" && isFirst) {
+      result += "ו";
+    } else {
+      const [spelling, hebrew] = LATIN_TO_HEBREW.find(([latin]) =>
+        rest.startsWith(latin),
+      ) ?? [letter, ""];
+      // Doubled consonants ("ss" in Yossi) are written once.
+      if (!result.endsWith(hebrew)) result += hebrew;
+      i += spelling.length;
+      continue;
+    }
+    i++;
+  }
+  const last = result.slice(-1);
+  return HEBREW_FINAL_FORMS[last]
+    ? result.slice(0, -1) + HEBREW_FINAL_FORMS[last]
+    : result;
+};
+
+/**
+ * A best-effort Hebrew ⇄ English spelling of a name, word by word. Rosters
+ * spell names many ways, so the result is a suggestion for the user to check.
+ */
+export const transliterateName = (name: string) =>
+  name
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) =>
+      isHebrew(word) ? hebrewWordToLatin(word) : latinWordToHebrew(word),
+    )
+    .filter(Boolean)
+    .join(" ");
+
+// Lowercase, without niqqud, accents, final-letter forms or punctuation, so
+// "Dana K." matches "dana k" and "שִׁיר" matches "שיר".
+export const normalizeName = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(HEBREW_MARKS, "")
+    .replace(/[ךםןףץ]/g, (letter) => "כמנפצ"["ךםןףץ".indexOf(letter)])
+    .replace(/[.'"׳״`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+// The server accepts the name plus this many aliases.
+export const MAX_NAME_ALIASES = 9;
+
+const STORAGE_KEY = "nameAliases";
+
+export const loadNameAliases = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored)
+      ? stored.filter((a): a is string => typeof a === "string")
+      : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable name aliases:", e);
+    return [];
+  }
+};
+
+export const saveNameAliases = (aliases: string[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(aliases));
+
+// The primary name first, then the aliases, without blanks or duplicates.
+export const collectNames = (userName: string, aliases: string[]) => {
+  const names: string[] = [];
+  for (const name of [userName, ...aliases].map((n) => n.trim())) {
+    if (name && !names.some((n) => normalizeName(n) === normalizeName(name))) {
+      names.push(name);
+    }
+  }
+  return names;
+};
+
+/**
+ * Other ways the roster may write the name: the other script, the first name
+ * alone and the first name with the last name's initial.
+ */
+export const suggestNameAliases = (userName: string, aliases: string[]) => {
+  const words = userName.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  const transliterated = transliterateName(userName).split(" ");
+  const suggestions = [transliterated.join(" ")];
+  if (words.length > 1) {
+    const [first, last] = [words[0], words[words.length - 1]];
+    const [otherFirst, otherLast] = [
+      transliterated[0],
+      transliterated[transliterated.length - 1],
+    ];
+    suggestions.push(
+      first,
+      `${first} ${[...last][0]}.`,
+      otherFirst,
+      `${otherFirst} ${[...otherLast][0]}.`,
+    );
+  }
+  const known = collectNames(userName, aliases).map(normalizeName);
+  return collectNames("", suggestions).filter(
+    (s) => !known.includes(normalizeName(s)),
+  );
+};
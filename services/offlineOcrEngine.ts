@@ -0,0 +1,161 @@
+import { Block, createWorker, OEM, PSM } from "tesseract.js";
+import workerUrl from "tesseract.js/dist/worker.min.js?url";
+import coreUrl from "tesseract.js-core/tesseract-core-lstm.wasm.js?url";
+import { ExtractionEngine, LayoutProfile } from "../types";
+import { getReferenceDate } from "./scheduleYear";
+import {
+  extractShiftsFromSpreadsheet,
+  guessColumnMapping,
+} from "./spreadsheetImport";
+import {
+  OcrWord,
+  TableCell,
+  detectRulingLines,
+  inferGridFromWords,
+  layoutCells,
+} from "./tableGrid";
+
+// Tesseract codes for the roster languages we expect. English is always
+// added so digits and Latin names are read well.
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  arabic: "ara",
+  english: "eng",
+  french: "fra",
+  german: "deu",
+  hebrew: "heb",
+  italian: "ita",
+  polish: "pol",
+  portuguese: "por",
+  russian: "rus",
+  spanish: "spa",
+  ukrainian: "ukr",
+};
+
+const getLanguages = (profile: LayoutProfile) => {
+  const code = TESSERACT_LANGUAGES[profile.language.trim().toLowerCase()];
+  return code && code !== "eng" ? [code, "eng"] : ["eng"];
+};
+
+// The worker loads these with importScripts from a blob, so they must be absolute.
+const absoluteUrl = (url: string) => new URL(url, window.location.href).href;
+
+const readPixels = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext("2d")!;
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const collectWords = (blocks: Block[]) => {
+  const words: OcrWord[] = [];
+  let lineId = 0;
+  for (const block of blocks) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        lineId++;
+        for (const word of line.words) {
+          if (word.text.trim()) {
+            words.push({
+              text: word.text.trim(),
+              bbox: word.bbox,
+              lineId,
+              confidence: word.confidence,
+            });
+          }
+        }
+      }
+    }
+  }
+  return words;
+};
+
+// The shift's confidence is the OCR's average confidence in its cell.
+const describeCell = (cell: TableCell | undefined) =>
+  cell
+    ? {
+        sourceRegion: cell.region,
+        confidence:
+          cell.words.reduce((sum, w) => sum + w.confidence, 0) /
+          Math.max(1, cell.words.length) /
+          100,
+      }
+    : {};
+
+/**
+ * Reads the roster entirely in the browser: Tesseract OCR for the words, the
+ * table's ruling lines (or the whitespace between words) for the cells, and
+ * the spreadsheet importer for turning cells into shifts. The image is never
+ * uploaded. Language data is fetched once from VITE_TESSERACT_LANG_PATH (or
+ * Tesseract's CDN) and cached in the browser.
+ */
+export const createOfflineOcrEngine = (): ExtractionEngine => ({
+  extract: async (file, names, profile, onProgress) => {
+    if (!file.type.startsWith("image/")) {
+      throw new Error(
+        `${file.name} is not an image. The offline engine reads images only; save the pages as images first.`,
+      );
+    }
+    onProgress?.("Loading the offline text recognizer...");
+    const worker = await createWorker(getLanguages(profile), OEM.LSTM_ONLY, {
+      workerPath: absoluteUrl(workerUrl),
+      corePath: absoluteUrl(coreUrl),
+      ...(import.meta.env.VITE_TESSERACT_LANG_PATH
+        ? { langPath: import.meta.env.VITE_TESSERACT_LANG_PATH }
+        : {}),
+      logger: ({ status, progress }) => {
+        if (status === "recognizing text") {
+          onProgress?.(
+            `Reading the schedule... ${Math.round(progress * 100)}%`,
+          );
+        }
+      },
+    });
+    try {
+      await worker.setParameters({
+        // Tables are sparse text; keep Tesseract from reflowing cells.
+        tessedit_pageseg_mode: PSM.SPARSE_TEXT,
+        preserve_interword_spaces: "1",
+      });
+      const pixels = await readPixels(file);
+      const { data } = await worker.recognize(file, {}, { blocks: true });
+      const words = collectWords(data.blocks || []);
+      if (words.length === 0) {
+        throw new Error(
+          "No text was recognized in the image. Please try a sharper screenshot.",
+        );
+      }
+
+      onProgress?.("Finding the table...");
+      const ruled = detectRulingLines(pixels);
+      const grid =
+        ruled.rows.length >= 2 && ruled.columns.length >= 2
+          ? ruled
+          : inferGridFromWords(words, pixels.width, pixels.height);
+      const cells = layoutCells(words, grid, pixels.width, pixels.height);
+      const rows = cells.map((row) => row.map((cell) => cell.text));
+      console.log("Offline OCR table:", rows);
+
+      const mapping = guessColumnMapping(rows, profile);
+      if (mapping.locationColumns.length === 0) {
+        throw new Error(
+          `Couldn't find the location columns (${profile.locations.join(", ")}) in the recognized table. Try a clearer image or another engine.`,
+        );
+      }
+      return extractShiftsFromSpreadsheet(
+        rows,
+        mapping,
+        names,
+        profile,
+        file.name,
+        getReferenceDate(file),
+        (row, column) => describeCell(cells[row]?.[column]),
+      );
+    } finally {
+      await worker.terminate();
+    }
+  },
+});
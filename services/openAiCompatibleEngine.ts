@@ -0,0 +1,114 @@
+import {
+  ExtractionEngine,
+  LayoutProfile,
+  OpenAiEngineSettings,
+} from "../types";
+import { buildExtractionPrompt, buildResponseSchema } from "./layoutProfiles";
+import { parseExtractionResponse } from "./extractionResponse";
+import { getReferenceDate } from "./scheduleYear";
+
+const fileToDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+
+// Local model servers often wrap JSON in a Markdown code fence.
+const stripCodeFence = (text: string) =>
+  text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+/**
+ * Any server speaking the OpenAI chat completions API with image input:
+ * OpenAI itself, or a local Ollama, LM Studio or vLLM instance. The request
+ * goes straight from the browser, so local servers must allow CORS.
+ */
+export const createOpenAiCompatibleEngine = (
+  settings: OpenAiEngineSettings,
+): ExtractionEngine => ({
+  extract: async (file, names, profile) => {
+    const baseUrl = settings.baseUrl.trim().replace(/\/$/, "");
+    if (!baseUrl || !settings.model.trim()) {
+      throw new Error(
+        "Set the endpoint URL and model for the OpenAI-compatible engine in Configuration.",
+      );
+    }
+    if (!file.type.startsWith("image/")) {
+      throw new Error(
+        `${file.name} is not an image. This engine reads images only; save the pages as images or choose the Gemini engine.`,
+      );
+    }
+
+    const referenceDate = getReferenceDate(file);
+    const referenceYear = referenceDate.getFullYear();
+    const schema = buildResponseSchema(profile, names, referenceYear);
+    const prompt = `${buildExtractionPrompt(profile, names, referenceYear)}
+Answer with a single JSON object and nothing else, matching this JSON schema:
+${JSON.stringify(schema)}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(settings.apiKey
+            ? { Authorization: `Bearer ${settings.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model.trim(),
+          temperature: 0,
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: prompt },
+                {
+                  type: "image_url",
+                  image_url: { url: await fileToDataUrl(file) },
+                },
+              ],
+            },
+          ],
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "roster_shifts", schema },
+          },
+        }),
+      });
+    } catch (error) {
+      console.error("Error reaching the OpenAI-compatible endpoint:", error);
+      throw new Error(
+        `Could not reach ${baseUrl}. Check the address and that the server allows requests from this site (CORS).`,
+      );
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(
+        body?.error?.message ||
+          `The model server returned ${response.status}. Please check the model name and try again.`,
+      );
+    }
+
+    const content: string | undefined = body?.choices?.[0]?.message?.content;
+    console.log("Raw AI response:", content);
+    try {
+      return parseExtractionResponse(
+        content && stripCodeFence(content),
+        file,
+        profile,
+        referenceDate,
+      );
+    } catch (error) {
+      console.error("Error reading the model response:", error);
+      throw new Error(
+        "AI response was not in valid JSON format. Please try again.",
+      );
+    }
+  },
+});
@@ -0,0 +1,328 @@
+import { PaySettings, Shift } from "../types";
+import { addDays, getShiftDurationHours } from "./shiftTime";
+import { buildCsv } from "./csv";
+
+// The week runs Sunday to Saturday with a Friday–Saturday weekend, as on the
+// default layout profile's Israeli rosters.
+export const DEFAULT_PAY_SETTINGS: PaySettings = {
+  currency: "",
+  rates: {},
+  defaultRate: 0,
+  unpaidBreakMinutes: 0,
+  unpaidBreakAfterHours: 6,
+  dailyOvertimeHours: 0,
+  weeklyOvertimeHours: 0,
+  overtimeMultiplier: 1.25,
+  weekStartDay: 0,
+  weekendDays: [5, 6],
+  weekendMultiplier: 1.5,
+  nightStart: "22:00",
+  nightEnd: "06:00",
+  nightMultiplier: 1,
+};
+
+const STORAGE_KEY = "paySettings";
+
+export const loadPaySettings = (): PaySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return { ...DEFAULT_PAY_SETTINGS, ...stored };
+  } catch (e) {
+    console.warn("Ignoring unreadable pay settings:", e);
+    return DEFAULT_PAY_SETTINGS;
+  }
+};
+
+export const savePaySettings = (settings: PaySettings) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+// What pay needs to know about a shift; history entries carry no more.
+export type PayableShift = Pick<
+  Shift,
+  "date" | "startTime" | "endTime" | "endsNextDay" | "location"
+>;
+
+export interface HoursTotals {
+  hours: number;
+  paidHours: number;
+  overtimeHours: number;
+  nightHours: number;
+  weekendHours: number;
+  pay: number;
+}
+
+export interface ShiftPay extends HoursTotals {
+  shift: PayableShift;
+  weekStart: string;
+}
+
+export interface HoursSummary {
+  total: HoursTotals;
+  weeks: (HoursTotals & { weekStart: string })[];
+  locations: (HoursTotals & { location: string })[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Shift times are wall-clock times, so they are measured as if in UTC.
+const toMs = (date: string, time = "00:00") => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes);
+};
+
+const getWeekday = (date: string) => new Date(toMs(date)).getUTCDay();
+
+export const getWeekStart = (date: string, weekStartDay: number) =>
+  addDays(date, -((getWeekday(date) - weekStartDay + 7) % 7));
+
+const overlapHours = (
+  [start, end]: number[],
+  [otherStart, otherEnd]: number[],
+) =>
+  Math.max(0, Math.min(end, otherEnd) - Math.max(start, otherStart)) / HOUR_MS;
+
+// Night windows start on the day before the shift too, for early mornings.
+const getNightHours = (range: number[], date: string, settings: PaySettings) =>
+  [-1, 0, 1].reduce((sum, offset) => {
+    const day = addDays(date, offset);
+    const start = toMs(day, settings.nightStart);
+    let end = toMs(day, settings.nightEnd);
+    if (end <= start) end += DAY_MS;
+    return sum + overlapHours(range, [start, end]);
+  }, 0);
+
+const getWeekendHours = (
+  range: number[],
+  date: string,
+  settings: PaySettings,
+) =>
+  [0, 1].reduce((sum, offset) => {
+    const day = addDays(date, offset);
+    if (!settings.weekendDays.includes(getWeekday(day))) return sum;
+    return sum + overlapHours(range, [toMs(day), toMs(day) + DAY_MS]);
+  }, 0);
+
+const excess = (total: number, threshold: number) =>
+  threshold > 0 ? Math.max(0, total - threshold) : 0;
+
+/**
+ * Hours and pay per shift. Overtime is counted in time order, so the shifts
+ * that cross a daily or weekly threshold carry the overtime hours; give it
+ * every shift of the weeks involved.
+ */
+export const calculateShiftPay = (
+  shifts: PayableShift[],
+  settings: PaySettings,
+): ShiftPay[] => {
+  const dayTotals = new Map<string, number>();
+  const weekTotals = new Map<string, number>();
+  return [...shifts]
+    .sort((a, b) =>
+      `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`),
+    )
+    .map((shift) => {
+      const hours = getShiftDurationHours(shift);
+      const breakHours =
+        settings.unpaidBreakMinutes > 0 &&
+        hours >= settings.unpaidBreakAfterHours
+          ? settings.unpaidBreakMinutes / 60
+          : 0;
+      const paidHours = Math.max(0, hours - breakHours);
+      const start = toMs(shift.date, shift.startTime);
+      const range = [start, start + hours * HOUR_MS];
+
+      const weekStart = getWeekStart(shift.date, settings.weekStartDay);
+      const dayBefore = dayTotals.get(shift.date) || 0;
+      const weekBefore = weekTotals.get(weekStart) || 0;
+      dayTotals.set(shift.date, dayBefore + paidHours);
+      weekTotals.set(weekStart, weekBefore + paidHours);
+      const overtimeHours = Math.max(
+        excess(dayBefore + paidHours, settings.dailyOvertimeHours) -
+          excess(dayBefore, settings.dailyOvertimeHours),
+        excess(weekBefore + paidHours, settings.weeklyOvertimeHours) -
+          excess(weekBefore, settings.weeklyOvertimeHours),
+      );
+      // The break can fall anywhere, so premium hours are capped, not cut.
+      const nightHours = Math.min(
+        paidHours,
+        getNightHours(range, shift.date, settings),
+      );
+      const weekendHours = Math.min(
+        paidHours,
+        getWeekendHours(range, shift.date, settings),
+      );
+
+      const rate = settings.rates[shift.location] ?? settings.defaultRate;
+      const pay =
+        rate *
+        (paidHours +
+          overtimeHours * (settings.overtimeMultiplier - 1) +
+          nightHours * (settings.nightMultiplier - 1) +
+          weekendHours * (settings.weekendMultiplier - 1));
+      return {
+        shift,
+        weekStart,
+        hours,
+        paidHours,
+        overtimeHours,
+        nightHours,
+        weekendHours,
+        pay,
+      };
+    });
+};
+
+const addTotals = (totals: HoursTotals, item: HoursTotals): HoursTotals => ({
+  hours: totals.hours + item.hours,
+  paidHours: totals.paidHours + item.paidHours,
+  overtimeHours: totals.overtimeHours + item.overtimeHours,
+  nightHours: totals.nightHours + item.nightHours,
+  weekendHours: totals.weekendHours + item.weekendHours,
+  pay: totals.pay + item.pay,
+});
+
+const EMPTY_TOTALS: HoursTotals = {
+  hours: 0,
+  paidHours: 0,
+  overtimeHours: 0,
+  nightHours: 0,
+  weekendHours: 0,
+  pay: 0,
+};
+
+const totalBy = <K extends string>(
+  pays: ShiftPay[],
+  keyName: K,
+  getKey: (pay: ShiftPay) => string,
+) => {
+  const totals = new Map<string, HoursTotals>();
+  for (const pay of pays) {
+    const key = getKey(pay);
+    totals.set(key, addTotals(totals.get(key) || EMPTY_TOTALS, pay));
+  }
+  return [...totals.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([key, total]) =>
+        ({ ...total, [keyName]: key }) as HoursTotals & Record<K, string>,
+    );
+};
+
+export const summarizeShiftPay = (pays: ShiftPay[]): HoursSummary => ({
+  total: pays.reduce(addTotals, EMPTY_TOTALS),
+  weeks: totalBy(pays, "weekStart", (pay) => pay.weekStart),
+  locations: totalBy(pays, "location", (pay) => pay.shift.location),
+});
+
+export const formatHours = (hours: number) =>
+  (Math.round(hours * 100) / 100).toString();
+
+export const formatPay = (pay: number, currency: string) =>
+  `${currency ? `${currency} ` : ""}${pay.toFixed(2)}`;
+
+// Months with shifts, newest first, as YYYY-MM.
+export const getReportMonths = (shifts: PayableShift[]) =>
+  [...new Set(shifts.map((shift) => shift.date.slice(0, 7)))].sort().reverse();
+
+export interface MonthlyReport {
+  month: string;
+  shifts: ShiftPay[];
+  summary: HoursSummary;
+}
+
+// Overtime is worked out over all history, so weeks spanning two months
+// count the hours from both.
+export const buildMonthlyReport = (
+  shifts: PayableShift[],
+  settings: PaySettings,
+  month: string,
+): MonthlyReport => {
+  const pays = calculateShiftPay(shifts, settings).filter((pay) =>
+    pay.shift.date.startsWith(month),
+  );
+  return { month, shifts: pays, summary: summarizeShiftPay(pays) };
+};
+
+const REPORT_COLUMNS = [
+  "Date",
+  "Start",
+  "End",
+  "Location",
+  "Hours",
+  "Paid hours",
+  "Overtime hours",
+  "Night hours",
+  "Weekend hours",
+  "Pay",
+];
+
+const toReportRow = (label: string[], totals: HoursTotals) => [
+  ...label,
+  formatHours(totals.hours),
+  formatHours(totals.paidHours),
+  formatHours(totals.overtimeHours),
+  formatHours(totals.nightHours),
+  formatHours(totals.weekendHours),
+  totals.pay.toFixed(2),
+];
+
+const toReportRows = (report: MonthlyReport) => [
+  ...report.shifts.map((pay) =>
+    toReportRow(
+      [
+        pay.shift.date,
+        pay.shift.startTime,
+        pay.shift.endTime,
+        pay.shift.location,
+      ],
+      pay,
+    ),
+  ),
+  toReportRow(["Total", "", "", ""], report.summary.total),
+];
+
+export const buildPayReportCsv = (report: MonthlyReport) =>
+  buildCsv([REPORT_COLUMNS, ...toReportRows(report)]);
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// A standalone page for the browser's "Save as PDF" print option.
+export const buildPayReportHtml = (
+  report: MonthlyReport,
+  settings: PaySettings,
+) => {
+  const rows = toReportRows(report);
+  const cells = (row: string[], tag: string) =>
+    row.map((cell) => `<${tag}>${escapeHtml(cell)}</${tag}>`).join("");
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Hours report ${escapeHtml(report.month)}</title>
+<style>
+  body { font-family: sans-serif; font-size: 12px; margin: 24px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: start; }
+  tr:last-child td { font-weight: bold; }
+</style>
+</head>
+<body dir="auto">
+<h1>Hours report ${escapeHtml(report.month)}</h1>
+<p>${escapeHtml(formatHours(report.summary.total.paidHours))} paid hours, ${escapeHtml(formatPay(report.summary.total.pay, settings.currency))}</p>
+<table>
+<thead><tr>${cells(REPORT_COLUMNS, "th")}</tr></thead>
+<tbody>
+${rows.map((row) => `<tr>${cells(row, "td")}</tr>`).join("\n")}
+</tbody>
+</table>
+</body>
+</html>`;
+};
@@ -0,0 +1,99 @@
+import { CalendarEvent, LayoutProfile, RemovedShift, Shift } from "../types";
+import { getDayName } from "./layoutProfiles";
+import { getShiftKey, parseShiftKey } from "./shiftIdentity";
+import { addDays, endsNextDay, getRosterWeekStart } from "./shiftTime";
+
+export interface RosterDiff {
+  shifts: Shift[];
+  removedShifts: RemovedShift[];
+}
+
+interface ImportedShift {
+  eventId: string;
+  key: string;
+  shift: Pick<
+    Shift,
+    "date" | "startTime" | "endTime" | "location" | "employeeName"
+  >;
+}
+
+const toImportedShifts = (events: CalendarEvent[]): ImportedShift[] =>
+  events.flatMap((event) => {
+    const key = event.shiftKey;
+    const shift = key ? parseShiftKey(key) : null;
+    return key && shift ? [{ eventId: event.id, key, shift }] : [];
+  });
+
+// The whole weeks a roster's shifts fall in.
+export const getRosterWeeks = (shifts: Shift[]) => {
+  const dates = shifts.map((shift) => shift.date).sort();
+  return {
+    firstDay: getRosterWeekStart(dates[0]),
+    lastDay: addDays(getRosterWeekStart(dates[dates.length - 1]), 6),
+  };
+};
+
+/**
+ * Compares a freshly extracted roster with the events this tool created in
+ * the same weeks. Identical shifts are marked as already in the calendar, a
+ * shift on a date that already had a different imported shift is marked as a
+ * change of that event, and imported shifts left over are reported as removed.
+ * Personal and whole-roster imports into the same calendar are kept apart.
+ */
+export const diffRoster = (
+  shifts: Shift[],
+  existingEvents: CalendarEvent[],
+  profile: LayoutProfile,
+): RosterDiff => {
+  const isWholeRoster = shifts.some((shift) => shift.employeeName);
+  // The roster covers whole weeks, so a shift dropped from its first or last
+  // day still counts as removed; the events may be listed with a margin, and
+  // imported shifts in other weeks belong to other rosters.
+  const { firstDay, lastDay } = getRosterWeeks(shifts);
+  const unmatched = toImportedShifts(existingEvents).filter(
+    (imported) =>
+      Boolean(imported.shift.employeeName) === isWholeRoster &&
+      imported.shift.date >= firstDay &&
+      imported.shift.date <= lastDay,
+  );
+  const take = (predicate: (imported: ImportedShift) => boolean) => {
+    const index = unmatched.findIndex(predicate);
+    return index === -1 ? undefined : unmatched.splice(index, 1)[0];
+  };
+
+  const exactMatches = shifts.map((shift) => {
+    const key = getShiftKey(shift);
+    return take((imported) => imported.key === key);
+  });
+
+  const diffed = shifts.map((shift, i) => {
+    if (exactMatches[i]) {
+      return { ...shift, isAlreadyInCalendar: true, changedFrom: undefined };
+    }
+    const previous = take(
+      (imported) =>
+        imported.shift.date === shift.date &&
+        imported.shift.employeeName === shift.employeeName,
+    );
+    return {
+      ...shift,
+      isAlreadyInCalendar: false,
+      changedFrom: previous && {
+        eventId: previous.eventId,
+        startTime: previous.shift.startTime,
+        endTime: previous.shift.endTime,
+        location: previous.shift.location,
+      },
+    };
+  });
+
+  const removedShifts = unmatched.map(({ eventId, shift }) => ({
+    ...shift,
+    eventId,
+    dayOfWeek: getDayName(profile, shift.date),
+    endsNextDay: endsNextDay(shift.startTime, shift.endTime),
+    selected: true,
+  }));
+
+  return { shifts: diffed, removedShifts };
+};
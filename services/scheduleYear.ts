@@ -0,0 +1,166 @@
+import {
+  LayoutProfile,
+  Shift,
+  ShiftNeedingAttention,
+  YearInference,
+} from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+// Roster screenshots and files are usually saved around when the roster is
+// published.
+export const getReferenceDate = (file: File) =>
+  new Date(file.lastModified || Date.now());
+
+const splitDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return { year, month, day };
+};
+
+// A roster whose months span more than half a year is read as crossing New
+// Year: the late-year months belong to the first year, the early ones to the next.
+const spansNewYear = (shifts: Shift[]) => {
+  const months = shifts.map((s) => splitDate(s.date).month);
+  return Math.max(...months) - Math.min(...months) > 6;
+};
+
+const yearFor = (month: number, anchorYear: number, crossesNewYear: boolean) =>
+  crossesNewYear && month <= 6 ? anchorYear + 1 : anchorYear;
+
+// Re-dates every shift to the given year, keeping month and day as extracted.
+export const applyScheduleYear = (shifts: Shift[], year: number): Shift[] => {
+  if (shifts.length === 0) return shifts;
+  const crossesNewYear = spansNewYear(shifts);
+  return shifts.map((shift) => {
+    const { month, day } = splitDate(shift.date);
+    const newYear = yearFor(month, year, crossesNewYear);
+    return { ...shift, date: `${newYear}-${pad(month)}-${pad(day)}` };
+  });
+};
+
+/**
+ * Re-dates a roster's shifts and those needing attention together, so the New
+ * Year crossing is judged on all of them. Shifts without a date keep none.
+ */
+export const applyScheduleYearToResult = (
+  shifts: Shift[],
+  needsAttention: ShiftNeedingAttention[],
+  year: number,
+) => {
+  const dated = applyScheduleYear(
+    [
+      ...shifts,
+      ...needsAttention
+        .filter(({ shift }) => shift.date)
+        .map(({ shift }) => shift),
+    ],
+    year,
+  );
+  let next = shifts.length;
+  return {
+    shifts: dated.slice(0, shifts.length),
+    needsAttention: needsAttention.map((item) =>
+      item.shift.date ? { ...item, shift: dated[next++] } : item,
+    ),
+  };
+};
+
+const countWeekdayMatches = (
+  shifts: Shift[],
+  profile: LayoutProfile,
+  year: number,
+) =>
+  applyScheduleYear(shifts, year).filter((shift) => {
+    const expected = profile.dayNames.indexOf(shift.dayOfWeek.trim());
+    return (
+      expected !== -1 &&
+      new Date(`${shift.date}T12:00:00`).getDay() === expected
+    );
+  }).length;
+
+const distanceFromReference = (
+  shifts: Shift[],
+  year: number,
+  referenceDate: Date,
+) => {
+  const times = applyScheduleYear(shifts, year).map((s) =>
+    new Date(`${s.date}T12:00:00`).getTime(),
+  );
+  const middle = (Math.min(...times) + Math.max(...times)) / 2;
+  return Math.abs(middle - referenceDate.getTime()) / DAY_MS;
+};
+
+/**
+ * Works out which year a roster belongs to. A year printed on the roster wins
+ * when the day names agree with it; otherwise the day names pick between the
+ * years around the reference (upload) date, and the closest year is used as a
+ * last resort. Any guess not backed by the day names is flagged as ambiguous.
+ */
+export const inferScheduleYear = (
+  shifts: Shift[],
+  profile: LayoutProfile,
+  yearOnRoster: number | undefined,
+  referenceDate: Date,
+): YearInference => {
+  const referenceYear = referenceDate.getFullYear();
+  const candidates = [referenceYear - 1, referenceYear, referenceYear + 1];
+  if (yearOnRoster && !candidates.includes(yearOnRoster)) {
+    candidates.push(yearOnRoster);
+    candidates.sort((a, b) => a - b);
+  }
+
+  if (shifts.length === 0) {
+    return {
+      year: yearOnRoster || referenceYear,
+      source: yearOnRoster ? "roster" : "uploadDate",
+      isAmbiguous: false,
+      crossesNewYear: false,
+      candidates,
+    };
+  }
+
+  const crossesNewYear = spansNewYear(shifts);
+  const matches = new Map(
+    candidates.map((y) => [y, countWeekdayMatches(shifts, profile, y)]),
+  );
+  const bestMatchCount = Math.max(...matches.values());
+  const bestByWeekday = candidates.filter(
+    (y) => matches.get(y) === bestMatchCount,
+  );
+
+  if (yearOnRoster && matches.get(yearOnRoster) === bestMatchCount) {
+    return {
+      year: yearOnRoster,
+      source: "roster",
+      isAmbiguous: false,
+      crossesNewYear,
+      candidates,
+    };
+  }
+
+  if (bestMatchCount > 0 && bestByWeekday.length === 1) {
+    return {
+      year: bestByWeekday[0],
+      source: "dayOfWeek",
+      // The printed year disagrees with the day names, so let the user decide.
+      isAmbiguous: yearOnRoster !== undefined,
+      crossesNewYear,
+      candidates,
+    };
+  }
+
+  const closest = [...bestByWeekday].sort(
+    (a, b) =>
+      distanceFromReference(shifts, a, referenceDate) -
+      distanceFromReference(shifts, b, referenceDate),
+  )[0];
+  return {
+    year: closest,
+    source: "uploadDate",
+    isAmbiguous: true,
+    crossesNewYear,
+    candidates,
+  };
+};
@@ -0,0 +1,47 @@
+import { CalendarWrite } from "../types";
+import { PayableShift } from "./paySummary";
+
+// A shift written to the calendar, kept for the monthly hours report.
+export interface HistoryShift extends PayableShift {
+  eventId: string;
+}
+
+const STORAGE_KEY = "shiftHistory";
+
+export const loadShiftHistory = (): HistoryShift[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable shift history:", e);
+    return [];
+  }
+};
+
+export const saveShiftHistory = (history: HistoryShift[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+
+/**
+ * Applies finished calendar writes to the history: new and updated events
+ * replace any entry for the same event, and deleted events drop out.
+ */
+export const recordCalendarWrites = (
+  history: HistoryShift[],
+  writes: CalendarWrite[],
+) => {
+  const done = writes.filter((w) => w.status === "done" && w.eventId);
+  const changedIds = new Set(done.map((w) => w.eventId));
+  return [
+    ...history.filter((entry) => !changedIds.has(entry.eventId)),
+    ...done
+      .filter((w) => w.action === "insert" || w.action === "patch")
+      .map(({ shift, eventId }) => ({
+        date: shift.date,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        endsNextDay: shift.endsNextDay,
+        location: shift.location,
+        eventId: eventId!,
+      })),
+  ];
+};
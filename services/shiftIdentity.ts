@@ -0,0 +1,37 @@
+import { Shift } from "../types";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A shift's identity is everything that defines it on the roster, so the same
+// roster imported twice produces the same keys. Calendar providers store it on
+// every event this tool creates. Shifts from a whole-roster import lead with
+// the employee's name, so two people on the same slot stay distinct.
+export const getShiftKey = (shift: Shift) =>
+  [
+    ...(shift.employeeName ? [shift.employeeName] : []),
+    shift.date,
+    shift.startTime,
+    shift.endTime,
+    shift.location,
+  ].join("|");
+
+// Reads the shift back out of a key written by getShiftKey.
+export const parseShiftKey = (
+  key: string,
+): Pick<
+  Shift,
+  "date" | "startTime" | "endTime" | "location" | "employeeName"
+> | null => {
+  const parts = key.split("|");
+  // Keys without an employee start with the date.
+  const employeeName = DATE_PATTERN.test(parts[0]) ? undefined : parts.shift();
+  const [date, startTime, endTime, ...location] = parts;
+  if (!date || !startTime || !endTime || location.length === 0) return null;
+  return {
+    date,
+    startTime,
+    endTime,
+    location: location.join("|"),
+    ...(employeeName ? { employeeName } : {}),
+  };
+};
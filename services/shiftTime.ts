@@ -0,0 +1,56 @@
+import { Shift } from "../types";
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+// Adds whole days to a YYYY-MM-DD date without going through time zones.
+export const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`;
+};
+
+// A shift whose end time is not after its start time runs past midnight.
+// Roster weeks run from the first of a layout profile's day names, Sunday.
+export const getRosterWeekStart = (date: string) =>
+  addDays(date, -new Date(`${date}T12:00:00`).getDay());
+
+export const endsNextDay = (startTime: string, endTime: string) =>
+  endTime <= startTime;
+
+export const getShiftEndDate = (shift: Shift) =>
+  shift.endsNextDay ? addDays(shift.date, 1) : shift.date;
+
+// Local wall-clock date-times (no offset), as used for Calendar events.
+export const getShiftStartDateTime = (shift: Shift) =>
+  `${shift.date}T${shift.startTime}:00`;
+
+export const getShiftEndDateTime = (shift: Shift) =>
+  `${getShiftEndDate(shift)}T${shift.endTime}:00`;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+type TimeRange = Pick<Shift, "startTime" | "endTime">;
+
+// Minutes past the start day's midnight; overnight ends count into the next day.
+const toMinuteRange = ({ startTime, endTime }: TimeRange) => {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  return [start, end <= start ? end + 24 * 60 : end];
+};
+
+// Whether two time ranges on the same date share any time.
+export const timeRangesOverlap = (a: TimeRange, b: TimeRange) => {
+  const [aStart, aEnd] = toMinuteRange(a);
+  const [bStart, bEnd] = toMinuteRange(b);
+  return aStart < bEnd && bStart < aEnd;
+};
+
+export const getShiftDurationHours = (
+  shift: Pick<Shift, "startTime" | "endTime" | "endsNextDay">,
+) => {
+  const minutes = toMinutes(shift.endTime) - toMinutes(shift.startTime);
+  return (shift.endsNextDay ? minutes + 24 * 60 : minutes) / 60;
+};
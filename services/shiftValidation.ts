@@ -0,0 +1,162 @@
+import { LayoutProfile, Shift, ShiftWarning } from "../types";
+import { ENGLISH_DAY_NAMES, getDayName } from "./layoutProfiles";
+import {
+  addDays,
+  getShiftDurationHours,
+  getShiftEndDateTime,
+  getRosterWeekStart,
+  getShiftStartDateTime,
+} from "./shiftTime";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isValidDate = (date: string) => {
+  if (!DATE_PATTERN.test(date)) return false;
+  const [year, month, day] = date.split("-").map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+};
+
+export const isValidTime = (time: string) => TIME_PATTERN.test(time);
+
+// Checks a single shift's fields; returns a message for the first problem.
+export const validateShift = (shift: Shift): string | null => {
+  if (!isValidDate(shift.date)) return "Enter a valid date.";
+  if (!isValidTime(shift.startTime)) return "Enter a valid start time.";
+  if (!isValidTime(shift.endTime)) return "Enter a valid end time.";
+  if (shift.startTime === shift.endTime)
+    return "Start and end time can't be the same.";
+  if (!shift.location.trim()) return "Choose a location.";
+  return null;
+};
+
+// Shifts below this confidence are flagged and left unselected in Review.
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const isLowConfidence = (shift: Shift) =>
+  shift.confidence !== undefined && shift.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+// Overnight shifts longer than this more likely end before they start.
+export const MAX_OVERNIGHT_HOURS = 12;
+
+const describeShift = (shift: Shift) =>
+  `${shift.date} ${shift.startTime} - ${shift.endTime} at ${shift.location}`;
+
+const getWeekdayIndex = (dayName: string) => {
+  const name = dayName.trim().toLowerCase();
+  return name
+    ? ENGLISH_DAY_NAMES.findIndex((n) => n.toLowerCase() === name)
+    : -1;
+};
+
+const checkDayOfWeek = (
+  shift: Shift,
+  profile: LayoutProfile,
+): ShiftWarning | null => {
+  const printed = profile.dayNames.indexOf(shift.dayOfWeek.trim());
+  const weekday = printed !== -1 ? printed : getWeekdayIndex(shift.dayOfWeek);
+  const actual = new Date(`${shift.date}T12:00:00`).getDay();
+  return weekday === -1 || weekday === actual
+    ? null
+    : {
+        kind: "dayOfWeek",
+        message: `The roster says ${shift.dayOfWeek}, but ${shift.date} is ${getDayName(profile, shift.date) || ENGLISH_DAY_NAMES[actual]}.`,
+      };
+};
+
+const checkEndBeforeStart = (shift: Shift): ShiftWarning | null => {
+  const hours = getShiftDurationHours(shift);
+  return shift.endsNextDay && hours > MAX_OVERNIGHT_HOURS
+    ? {
+        kind: "endBeforeStart",
+        message: `Ends before it starts; as an overnight shift it would last ${Math.round(hours)} hours.`,
+      }
+    : null;
+};
+
+// Someone can't work two shifts at once; in a whole roster, only each
+// person's own shifts are compared.
+const findOverlaps = (
+  shift: Shift,
+  index: number,
+  shifts: Shift[],
+): ShiftWarning[] =>
+  shifts
+    .filter(
+      (other, i) =>
+        i !== index &&
+        (other.employeeName || "") === (shift.employeeName || "") &&
+        getShiftStartDateTime(shift) < getShiftEndDateTime(other) &&
+        getShiftStartDateTime(other) < getShiftEndDateTime(shift),
+    )
+    .map((other) => ({
+      kind: "overlap",
+      message: `Overlaps the shift on ${describeShift(other)}.`,
+    }));
+
+const getSourceFile = (shift: Shift) =>
+  shift.sourceFileIndex ?? shift.source?.split(" · ")[0] ?? "";
+
+/**
+ * The run of consecutive weeks holding most of a file's shifts. A roster
+ * covers one such run, however many weeks long; shifts in weeks apart from
+ * it were most likely misread.
+ */
+const findRosterWeeks = (dates: string[]) => {
+  const runs: string[][] = [];
+  for (const week of [...new Set(dates.map(getRosterWeekStart))].sort()) {
+    const run = runs[runs.length - 1];
+    if (run && addDays(run[run.length - 1], 7) === week) run.push(week);
+    else runs.push([week]);
+  }
+  const countShifts = (run: string[]) =>
+    dates.filter((date) => run.includes(getRosterWeekStart(date))).length;
+  const main = runs.reduce((best, run) =>
+    countShifts(run) > countShifts(best) ? run : best,
+  );
+  return { start: main[0], end: addDays(main[main.length - 1], 6) };
+};
+
+/**
+ * Cross-checks extracted shifts against their day names, each other and the
+ * weeks their roster covers, and sets `warnings` on each shift from scratch.
+ */
+export const checkShiftConsistency = (
+  shifts: Shift[],
+  profile: LayoutProfile,
+): Shift[] => {
+  const rosterWeeks = new Map<
+    string | number,
+    { start: string; end: string }
+  >();
+  for (const file of new Set(shifts.map(getSourceFile))) {
+    rosterWeeks.set(
+      file,
+      findRosterWeeks(
+        shifts.filter((s) => getSourceFile(s) === file).map((s) => s.date),
+      ),
+    );
+  }
+  return shifts.map((shift, index) => {
+    const weeks = rosterWeeks.get(getSourceFile(shift))!;
+    const warnings = [
+      checkDayOfWeek(shift, profile),
+      checkEndBeforeStart(shift),
+      ...findOverlaps(shift, index, shifts),
+      shift.date < weeks.start || shift.date > weeks.end
+        ? {
+            kind: "outsideRoster" as const,
+            message: `Falls outside the weeks the roster covers, ${weeks.start} to ${weeks.end}.`,
+          }
+        : null,
+    ].filter((w): w is ShiftWarning => w !== null);
+    return { ...shift, warnings: warnings.length > 0 ? warnings : undefined };
+  });
+};
+
+// Shifts the user should look at before they're added: hard to read, or at
+// odds with their day or the other shifts.
+export const isSuspicious = (shift: Shift) =>
+  isLowConfidence(shift) ||
+  (shift.warnings || []).some((warning) => warning.kind !== "outsideRoster");
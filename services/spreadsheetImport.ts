@@ -0,0 +1,262 @@
+import * as XLSX from "xlsx";
+import {
+  ExtractionResult,
+  LayoutProfile,
+  Shift,
+  ShiftNeedingAttention,
+  SpreadsheetColumnMapping,
+} from "../types";
+import { getDayName } from "./layoutProfiles";
+import { normalizeName } from "./nameAliases";
+import { applyScheduleYearToResult, inferScheduleYear } from "./scheduleYear";
+import { endsNextDay, timeRangesOverlap } from "./shiftTime";
+import {
+  parseDateWithFormat,
+  parseTimeRange,
+  removeTimeRange,
+} from "./timeParsing";
+
+const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls", ".csv"];
+
+export const isSpreadsheetFile = (file: File) =>
+  SPREADSHEET_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext));
+
+// Reads the first sheet as rows of display text.
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const isCsv = file.name.toLowerCase().endsWith(".csv");
+  const workbook = isCsv
+    ? // Keep CSV cells as written; SheetJS would otherwise guess at dates.
+      XLSX.read(await file.text(), { type: "string", raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("The spreadsheet doesn't contain any sheets.");
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    dateNF: "yyyy-mm-dd",
+    defval: "",
+  });
+  return rows.map((row) => row.map((cell) => String(cell ?? "").trim()));
+};
+
+const parseCellDate = (
+  text: string,
+  profile: LayoutProfile,
+  fallbackYear: number,
+) => {
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return {
+      date: `${iso[1]}-${iso[2].padStart(2, "0")}-${iso[3].padStart(2, "0")}`,
+      hasYear: true,
+    };
+  }
+  return parseDateWithFormat(text, profile.dateFormat, fallbackYear);
+};
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const countColumn = (
+  rows: string[][],
+  from: number,
+  predicate: (cell: string) => boolean,
+) => {
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  return Array.from(
+    { length: width },
+    (_, col) => rows.slice(from).filter((r) => predicate(r[col] || "")).length,
+  );
+};
+
+const indexOfMax = (counts: number[]) =>
+  counts.reduce((best, count, i) => (count > counts[best] ? i : best), 0);
+
+// Best guess from the layout profile, for the user to correct.
+export const guessColumnMapping = (
+  rows: string[][],
+  profile: LayoutProfile,
+): SpreadsheetColumnMapping => {
+  const locations = profile.locations.map(normalize);
+  const foundHeader = rows
+    .slice(0, 10)
+    .findIndex((row) =>
+      row.some((cell) => locations.includes(normalize(cell))),
+    );
+  const headerRow = Math.max(foundHeader, 0);
+  const header = rows[headerRow] || [];
+
+  const dateCounts = countColumn(
+    rows,
+    headerRow + 1,
+    (cell) => cell !== "" && parseCellDate(cell, profile, 2000) !== null,
+  );
+  const dayCounts = countColumn(rows, headerRow + 1, (cell) =>
+    profile.dayNames.includes(cell),
+  );
+  const dayColumn = indexOfMax(dayCounts);
+
+  return {
+    headerRow,
+    dateColumn: indexOfMax(dateCounts),
+    dayColumn: dayCounts[dayColumn] > 0 ? dayColumn : null,
+    timeColumn: null,
+    locationColumns: header
+      .map((cell, i) => (locations.includes(normalize(cell)) ? i : -1))
+      .filter((i) => i !== -1),
+    nameMatch: "contains",
+  };
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Lines are compared after normalizeName, so spelling marks and final
+// letters don't get in the way; the original line is returned.
+const findNameLine = (
+  cell: string,
+  name: string,
+  mode: SpreadsheetColumnMapping["nameMatch"],
+) => {
+  const normalized = escapeRegExp(normalizeName(name));
+  const pattern =
+    mode === "wholeWord"
+      ? new RegExp(`(^|[^\\p{L}])${normalized}($|[^\\p{L}])`, "u")
+      : new RegExp(normalized);
+  return cell.split(/\r?\n/).find((line) => pattern.test(normalizeName(line)));
+};
+
+// The first of the user's names found in the cell, in the order given.
+const findNameMatches = (
+  cell: string,
+  names: string[],
+  mode: SpreadsheetColumnMapping["nameMatch"],
+) => {
+  for (const name of names) {
+    const line = findNameLine(cell, name, mode);
+    if (line !== undefined) return [{ name, line }];
+  }
+  return [];
+};
+
+// Every line that names someone, for whole-roster extraction and co-workers.
+const findEmployeeLines = (cell: string) =>
+  cell.split(/\r?\n/).flatMap((line) => {
+    const name = removeTimeRange(line)
+      .replace(/^[^\p{L}]+|[^\p{L}.]+$/gu, "")
+      .replace(/\s+/g, " ");
+    return /\p{L}/u.test(name) ? [{ name, line }] : [];
+  });
+
+// Everyone else in the cell, unless their own hours miss this shift's.
+const findCoworkers = (
+  cell: string,
+  line: string,
+  times: { startTime: string; endTime: string },
+) =>
+  findEmployeeLines(cell)
+    .filter((other) => other.line !== line)
+    .filter((other) => {
+      const otherTimes = parseTimeRange(other.line);
+      return !otherTimes || timeRangesOverlap(otherTimes, times);
+    })
+    .map((other) => other.name);
+
+/**
+ * Turns spreadsheet rows into shifts for any of `names` (or, when `names` is
+ * null, for everyone named in the location cells) without calling the AI.
+ * Rows without a date inherit the date above them, so rosters with several
+ * rows per day (or merged date cells) still work. `describeCell` lets callers
+ * that know where a cell came from (OCR) attach its region and confidence.
+ */
+export const extractShiftsFromSpreadsheet = (
+  rows: string[][],
+  mapping: SpreadsheetColumnMapping,
+  names: string[] | null,
+  profile: LayoutProfile,
+  sourceName: string,
+  referenceDate: Date,
+  describeCell?: (
+    row: number,
+    column: number,
+  ) => Pick<Shift, "sourceRegion" | "confidence">,
+): ExtractionResult => {
+  const fallbackYear = referenceDate.getFullYear();
+  const header = rows[mapping.headerRow] || [];
+  const candidates = names?.map((n) => n.trim()).filter(Boolean);
+  const shifts: Shift[] = [];
+  const needsAttention: ShiftNeedingAttention[] = [];
+  let yearOnRoster: number | undefined;
+  let currentDate: string | null = null;
+
+  rows.slice(mapping.headerRow + 1).forEach((row, i) => {
+    const parsedDate = parseCellDate(
+      row[mapping.dateColumn] || "",
+      profile,
+      fallbackYear,
+    );
+    if (parsedDate) {
+      currentDate = parsedDate.date;
+      if (parsedDate.hasYear && yearOnRoster === undefined)
+        yearOnRoster = Number(parsedDate.date.slice(0, 4));
+    }
+    if (!currentDate || candidates?.length === 0) return;
+
+    for (const column of mapping.locationColumns) {
+      const cell = row[column] || "";
+      const matches = candidates
+        ? findNameMatches(cell, candidates, mapping.nameMatch)
+        : findEmployeeLines(cell);
+      for (const { name, line } of matches) {
+        const times =
+          parseTimeRange(line) ||
+          parseTimeRange(cell) ||
+          (mapping.timeColumn !== null
+            ? parseTimeRange(row[mapping.timeColumn] || "")
+            : null);
+        const dayCell =
+          mapping.dayColumn !== null ? row[mapping.dayColumn] || "" : "";
+        const shift: Shift = {
+          date: currentDate,
+          dayOfWeek: dayCell || getDayName(profile, currentDate),
+          startTime: "",
+          endTime: "",
+          location: header[column] || `Column ${column + 1}`,
+          source: `${sourceName} · row ${mapping.headerRow + i + 2}`,
+          ...describeCell?.(mapping.headerRow + i + 1, column),
+          ...(candidates ? { matchedName: name } : { employeeName: name }),
+          selected: true,
+        };
+        // The name was found, so the shift is listed for the user to fix.
+        if (!times) {
+          console.warn(
+            `No time range for "${name}" in row ${mapping.headerRow + i + 2}:`,
+            cell,
+          );
+          needsAttention.push({
+            shift,
+            problem: `No time range was found next to "${name}".`,
+          });
+          continue;
+        }
+        const coworkers = findCoworkers(cell, line, times);
+        shifts.push({
+          ...shift,
+          ...times,
+          endsNextDay: endsNextDay(times.startTime, times.endTime),
+          ...(coworkers.length > 0 ? { coworkers } : {}),
+        });
+      }
+    }
+  });
+
+  const yearInference = inferScheduleYear(
+    shifts,
+    profile,
+    yearOnRoster,
+    referenceDate,
+  );
+  return {
+    ...applyScheduleYearToResult(shifts, needsAttention, yearInference.year),
+    yearInference,
+  };
+};
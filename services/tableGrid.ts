@@ -0,0 +1,219 @@
+import { SourceRegion } from "../types";
+
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  bbox: BoundingBox;
+  // Words on the same OCR text line share an id.
+  lineId: number;
+  // 0–100, as reported by the OCR engine.
+  confidence: number;
+}
+
+export interface TableCell {
+  // One OCR line per text line, like a spreadsheet cell.
+  text: string;
+  words: OcrWord[];
+  region: SourceRegion;
+}
+
+export interface TableGrid {
+  // Ascending pixel positions of the row and column boundaries.
+  rows: number[];
+  columns: number[];
+}
+
+interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const DARK_LUMINANCE = 110;
+// A ruling line spans at least this share of the table.
+const MIN_LINE_FRACTION = 0.5;
+// Gaps (anti-aliasing, text touching the line) bridged within a line.
+const MAX_LINE_GAP = 3;
+
+const isDark = ({ data }: Pixels, x: number, y: number, width: number) => {
+  const i = (y * width + x) * 4;
+  return (
+    0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] < DARK_LUMINANCE
+  );
+};
+
+const longestDarkRun = (
+  from: number,
+  to: number,
+  isDarkAt: (i: number) => boolean,
+) => {
+  let longest = 0;
+  let runStart = -1;
+  let lastDark = -Infinity;
+  for (let i = from; i < to; i++) {
+    if (!isDarkAt(i)) continue;
+    if (i - lastDark > MAX_LINE_GAP + 1) runStart = i;
+    lastDark = i;
+    longest = Math.max(longest, i - runStart + 1);
+  }
+  return longest;
+};
+
+// Thick lines show up as several adjacent positions; keep their middle.
+const mergeAdjacent = (positions: number[]) => {
+  const merged: number[] = [];
+  let group: number[] = [];
+  for (const position of positions) {
+    if (group.length > 0 && position - group[group.length - 1] > 2) {
+      merged.push(Math.round((group[0] + group[group.length - 1]) / 2));
+      group = [];
+    }
+    group.push(position);
+  }
+  if (group.length > 0) {
+    merged.push(Math.round((group[0] + group[group.length - 1]) / 2));
+  }
+  return merged;
+};
+
+/**
+ * Finds the horizontal and vertical ruling lines of a table drawn on the
+ * image. Vertical lines are measured against the height between the first
+ * and last horizontal line, so a heading above the table does not hide them.
+ */
+export const detectRulingLines = (pixels: Pixels): TableGrid => {
+  const { width, height } = pixels;
+  const rows: number[] = [];
+  for (let y = 0; y < height; y++) {
+    const run = longestDarkRun(0, width, (x) => isDark(pixels, x, y, width));
+    if (run >= width * MIN_LINE_FRACTION) rows.push(y);
+  }
+  const mergedRows = mergeAdjacent(rows);
+  const top = mergedRows.length >= 2 ? mergedRows[0] : 0;
+  const bottom =
+    mergedRows.length >= 2 ? mergedRows[mergedRows.length - 1] + 1 : height;
+
+  const columns: number[] = [];
+  for (let x = 0; x < width; x++) {
+    const run = longestDarkRun(top, bottom, (y) => isDark(pixels, x, y, width));
+    if (run >= (bottom - top) * MIN_LINE_FRACTION) columns.push(x);
+  }
+  return { rows: mergedRows, columns: mergeAdjacent(columns) };
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 0;
+};
+
+// Splits an axis wherever no word covers a stretch of at least minGap pixels.
+const boundariesFromGaps = (
+  spans: [number, number][],
+  extent: number,
+  minGap: number,
+) => {
+  const covered = new Uint8Array(extent + 1);
+  for (const [from, to] of spans) {
+    covered.fill(1, Math.max(0, Math.floor(from)), Math.ceil(to) + 1);
+  }
+  const boundaries = [0];
+  let gapStart = -1;
+  for (let i = 0; i <= extent; i++) {
+    if (!covered[i]) {
+      if (gapStart === -1) gapStart = i;
+      continue;
+    }
+    if (gapStart > 0 && i - gapStart >= minGap) {
+      boundaries.push(Math.round((gapStart + i) / 2));
+    }
+    gapStart = -1;
+  }
+  boundaries.push(extent);
+  return boundaries;
+};
+
+/**
+ * Grid for tables drawn without ruling lines: rows and columns fall in the
+ * whitespace between words. Column gaps must be wider than the spaces
+ * between words in a cell.
+ */
+export const inferGridFromWords = (
+  words: OcrWord[],
+  width: number,
+  height: number,
+): TableGrid => {
+  const wordHeight = median(words.map((w) => w.bbox.y1 - w.bbox.y0)) || 10;
+  return {
+    rows: boundariesFromGaps(
+      words.map((w) => [w.bbox.y0, w.bbox.y1]),
+      height,
+      Math.max(2, wordHeight * 0.4),
+    ),
+    columns: boundariesFromGaps(
+      words.map((w) => [w.bbox.x0, w.bbox.x1]),
+      width,
+      wordHeight * 1.5,
+    ),
+  };
+};
+
+// The image edges close any table whose outer border was not found.
+const withEdges = (boundaries: number[], extent: number) => {
+  const result = [...boundaries];
+  if (result.length === 0 || result[0] > 5) result.unshift(0);
+  if (result[result.length - 1] < extent - 5) result.push(extent);
+  return result;
+};
+
+const findSlot = (boundaries: number[], position: number) => {
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    if (position >= boundaries[i] && position < boundaries[i + 1]) return i;
+  }
+  return -1;
+};
+
+const joinWords = (words: OcrWord[]) =>
+  words
+    .map((word, i) =>
+      i === 0
+        ? word.text
+        : `${word.lineId === words[i - 1].lineId ? " " : "\n"}${word.text}`,
+    )
+    .join("");
+
+// Places each word in the cell containing its centre.
+export const layoutCells = (
+  words: OcrWord[],
+  grid: TableGrid,
+  width: number,
+  height: number,
+): TableCell[][] => {
+  const rows = withEdges(grid.rows, height);
+  const columns = withEdges(grid.columns, width);
+  const cellWords = rows
+    .slice(1)
+    .map(() => columns.slice(1).map((): OcrWord[] => []));
+  for (const word of words) {
+    const row = findSlot(rows, (word.bbox.y0 + word.bbox.y1) / 2);
+    const column = findSlot(columns, (word.bbox.x0 + word.bbox.x1) / 2);
+    if (row !== -1 && column !== -1) cellWords[row][column].push(word);
+  }
+  return cellWords.map((row, r) =>
+    row.map((words, c) => ({
+      text: joinWords(words),
+      words,
+      region: {
+        x: columns[c] / width,
+        y: rows[r] / height,
+        width: (columns[c + 1] - columns[c]) / width,
+        height: (rows[r + 1] - rows[r]) / height,
+      },
+    })),
+  );
+};
@@ -0,0 +1,60 @@
+import { Shift } from "../types";
+import { buildCsv } from "./csv";
+
+export interface EmployeeShiftGroup {
+  employeeName: string;
+  // Positions of the employee's shifts in the list that was grouped.
+  indices: number[];
+}
+
+// Groups a whole-roster extraction by person, alphabetically.
+export const groupShiftsByEmployee = (shifts: Shift[]) => {
+  const groups = new Map<string, number[]>();
+  shifts.forEach((shift, index) => {
+    const name = shift.employeeName?.trim() || "";
+    groups.set(name, [...(groups.get(name) || []), index]);
+  });
+  return [...groups.entries()]
+    .map(([employeeName, indices]): EmployeeShiftGroup => ({
+      employeeName,
+      indices,
+    }))
+    .sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+};
+
+// Safe in file names on every platform, keeping Hebrew and other letters.
+export const toFileNamePart = (text: string) =>
+  text
+    .trim()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-|-$/g, "") || "unnamed";
+
+const CSV_COLUMNS = [
+  "Employee",
+  "Date",
+  "Day",
+  "Start",
+  "End",
+  "Ends next day",
+  "Location",
+];
+
+// One row per shift, sorted by employee and then time.
+export const buildRosterCsv = (shifts: Shift[]) => {
+  const rows = [...shifts]
+    .sort(
+      (a, b) =>
+        (a.employeeName || "").localeCompare(b.employeeName || "") ||
+        `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`),
+    )
+    .map((shift) => [
+      shift.employeeName || "",
+      shift.date,
+      shift.dayOfWeek,
+      shift.startTime,
+      shift.endTime,
+      shift.endsNextDay ? "yes" : "no",
+      shift.location,
+    ]);
+  return buildCsv([CSV_COLUMNS, ...rows]);
+};
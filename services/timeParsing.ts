@@ -0,0 +1,61 @@
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+const TIME_RANGE_PATTERN =
+  /(\d{1,2})(?:[:.](\d{2}))?\s*[-–—]\s*(\d{1,2})(?:[:.](\d{2}))?/;
+
+const toTime = (hours: string, minutes?: string) => {
+  const h = Number(hours);
+  const m = Number(minutes ?? 0);
+  return h <= 24 && m < 60 ? `${pad(h % 24)}:${pad(m)}` : null;
+};
+
+// Finds a range such as "9-16", "15:30-22:00" or "8.30 – 17" in free text.
+export const parseTimeRange = (
+  text: string,
+): { startTime: string; endTime: string } | null => {
+  const match = text.match(TIME_RANGE_PATTERN);
+  if (!match) return null;
+  const startTime = toTime(match[1], match[2]);
+  const endTime = toTime(match[3], match[4]);
+  return startTime && endTime ? { startTime, endTime } : null;
+};
+
+// A single time such as "9", "9:30" or "09.30".
+export const parseTime = (text: string) => {
+  const match = text.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?$/);
+  return match ? toTime(match[1], match[2]) : null;
+};
+
+// The text around a time range, e.g. the name in "Dana 9-16".
+export const removeTimeRange = (text: string) =>
+  text.replace(TIME_RANGE_PATTERN, " ");
+
+/**
+ * Parses a date written in a layout's format (e.g. "DD.MM.YY", "MM/DD/YYYY").
+ * Without a year in the format, `fallbackYear` is used; the caller is expected
+ * to correct it with year inference.
+ */
+export const parseDateWithFormat = (
+  text: string,
+  format: string,
+  fallbackYear: number,
+): { date: string; hasYear: boolean } | null => {
+  const tokens = format.toUpperCase().match(/D+|M+|Y+/g) || [];
+  const parts = text.trim().match(/\d+/g) || [];
+  if (tokens.length === 0 || parts.length < tokens.length) return null;
+
+  let day = 0;
+  let month = 0;
+  let year: number | undefined;
+  tokens.forEach((token, i) => {
+    const value = Number(parts[i]);
+    if (token.startsWith("D")) day = value;
+    else if (token.startsWith("M")) month = value;
+    else year = value < 100 ? 2000 + value : value;
+  });
+  if (day < 1 || day > 31 || month < 1 || month > 12) return null;
+  return {
+    date: `${year ?? fallbackYear}-${pad(month)}-${pad(day)}`,
+    hasYear: year !== undefined,
+  };
+};
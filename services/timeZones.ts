@@ -0,0 +1,71 @@
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const getBrowserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Offset of a time zone from UTC, in minutes, at the given instant.
+export const getOffsetMinutes = (timeZone: string, instant: number) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+  );
+  return Math.round(
+    (asUtc - Math.floor(instant / MINUTE_MS) * MINUTE_MS) / MINUTE_MS,
+  );
+};
+
+export interface OffsetTransition {
+  instant: number;
+  from: number;
+  to: number;
+}
+
+// Scans day by day for offset changes, then narrows each to the minute.
+export const findOffsetTransitions = (timeZone: string, year: number) => {
+  const transitions: OffsetTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = getOffsetMinutes(timeZone, Date.UTC(year, 0, 1));
+  for (let day = Date.UTC(year, 0, 1) + DAY_MS; day <= end; day += DAY_MS) {
+    const offset = getOffsetMinutes(timeZone, day);
+    if (offset === previous) continue;
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (getOffsetMinutes(timeZone, middle) === previous) low = middle;
+      else high = middle;
+    }
+    transitions.push({ instant: high, from: previous, to: offset });
+    previous = offset;
+  }
+  return transitions;
+};
+
+// Converts a wall-clock "YYYY-MM-DDTHH:MM[:SS]" in a time zone to an instant.
+export const zonedDateTimeToInstant = (
+  localDateTime: string,
+  timeZone: string,
+) => {
+  const [date, time = "00:00"] = localDateTime.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes, seconds = 0] = time.split(":").map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  // The offset at the guessed instant is right except within a DST change.
+  const guess = asUtc - getOffsetMinutes(timeZone, asUtc) * MINUTE_MS;
+  return asUtc - getOffsetMinutes(timeZone, guess) * MINUTE_MS;
+};
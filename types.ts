@@ -2,13 +2,309 @@ export interface Shift {
   date: string;
   startTime: string;
   endTime: string;
+  // True when the shift ends after midnight, on the day after `date`.
+  endsNextDay?: boolean;
   location: string;
   dayOfWeek: string;
   isConflicting?: boolean;
+  // The calendar entries behind isConflicting.
+  conflicts?: ShiftConflict[];
+  // An event created from this exact shift already exists in the calendar.
+  isAlreadyInCalendar?: boolean;
+  // Set when this shift replaces one imported earlier with different details.
+  changedFrom?: ShiftRevision;
+  // The uploaded file (and page, for PDFs) the shift was read from.
+  source?: string;
+  // Index of that file among the uploads, and where on it the shift is.
+  sourceFileIndex?: number;
+  sourceRegion?: SourceRegion;
+  // 0–1, how sure the extraction engine is about this shift.
+  confidence?: number;
+  // Which of the user's names (or aliases) the shift was found under.
+  matchedName?: string;
+  // Who works the shift, when the whole roster is extracted (manager mode).
+  employeeName?: string;
+  // Colleagues named in the same location and time slot, as written.
+  coworkers?: string[];
+  // Inconsistencies found by cross-checking the extracted shifts.
+  warnings?: ShiftWarning[];
   selected: boolean;
 }
 
-export interface GoogleCalendar {
+export interface ShiftWarning {
+  // Only "outsideRoster" leaves the shift selected: rosters can run longer
+  // than the weeks the shifts show.
+  kind: "dayOfWeek" | "endBeforeStart" | "overlap" | "outsideRoster";
+  message: string;
+}
+
+// A rectangle on the source image, as fractions of its width and height.
+export interface SourceRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ShiftRevision {
+  eventId: string;
+  startTime: string;
+  endTime: string;
+  location: string;
+}
+
+// A shift imported earlier that no longer appears on the roster. `selected`
+// means its calendar event will be deleted.
+export interface RemovedShift extends Shift {
+  eventId: string;
+}
+
+export interface CalendarListEntry {
+  id: string;
+  summary: string;
+  // Read-only and free/busy-only calendars can still be checked for conflicts.
+  canWrite: boolean;
+}
+
+export type CalendarProviderId = "google" | "caldav" | "microsoft" | "demo";
+
+// A calendar event in provider-neutral form.
+export interface CalendarEvent {
   id: string;
   summary: string;
-}
\ No newline at end of file
+  // ISO 8601 date-time with offset, or YYYY-MM-DD for all-day events.
+  start: string;
+  end: string;
+  isAllDay: boolean;
+  // Set on events this tool created; see services/shiftIdentity.ts.
+  shiftKey?: string;
+  // Organised by someone else, so it can be declined instead of deleted.
+  isInvitation?: boolean;
+}
+
+// Time a calendar is busy, with the same date conventions as CalendarEvent.
+export interface BusyInterval {
+  calendarId: string;
+  start: string;
+  end: string;
+  isAllDay: boolean;
+}
+
+// What to do about an existing event that overlaps a shift.
+export type ConflictAction = "keepBoth" | "skipShift" | "delete" | "decline";
+
+// An existing calendar entry that overlaps a shift.
+export interface ShiftConflict {
+  // The event's title; null when the calendar only shares free/busy time.
+  summary: string | null;
+  calendarId: string;
+  calendarName: string;
+  // Missing for free/busy time, which can only be kept or avoided.
+  eventId?: string;
+  isInvitation?: boolean;
+  start: string;
+  end: string;
+  isAllDay: boolean;
+  action: ConflictAction;
+}
+
+export interface CalendarEventInput {
+  summary: string;
+  description: string;
+  location: string;
+  // Local wall-clock date-times (YYYY-MM-DDTHH:MM:SS) in `timeZone`.
+  start: string;
+  end: string;
+  timeZone: string;
+  colorId?: string;
+  // Popup reminders in minutes; empty means the calendar's default.
+  reminderMinutes: number[];
+  shiftKey: string;
+}
+
+export interface CalendarProvider {
+  listCalendars(): Promise<CalendarListEntry[]>;
+  // timeMin and timeMax are ISO 8601 instants.
+  listEvents(
+    calendarId: string,
+    timeMin: string,
+    timeMax: string,
+  ): Promise<CalendarEvent[]>;
+  // Busy time across several calendars, including ones shared free/busy only.
+  queryFreeBusy(
+    calendarIds: string[],
+    timeMin: string,
+    timeMax: string,
+  ): Promise<BusyInterval[]>;
+  // Resolves to the new event's id.
+  createEvent(calendarId: string, event: CalendarEventInput): Promise<string>;
+  updateEvent(
+    calendarId: string,
+    eventId: string,
+    event: CalendarEventInput,
+  ): Promise<void>;
+  deleteEvent(calendarId: string, eventId: string): Promise<void>;
+  // Declines an invitation and tells the organiser.
+  declineEvent(calendarId: string, eventId: string): Promise<void>;
+}
+
+export interface TimeRangeExample {
+  raw: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface LayoutProfile {
+  id: string;
+  name: string;
+  // Column headers that identify each location on the roster.
+  locations: string[];
+  // How dates are written on the roster, e.g. "DD.MM.YY".
+  dateFormat: string;
+  language: string;
+  // Day names as printed on the roster, indexed like Date.getDay() (0 = Sunday).
+  dayNames: string[];
+  timeRangeExamples: TimeRangeExample[];
+}
+
+export interface YearInference {
+  year: number;
+  // What decided the year: a year printed on the roster, the day names
+  // matching the dates, or proximity to the upload date.
+  source: "roster" | "dayOfWeek" | "uploadDate";
+  isAmbiguous: boolean;
+  crossesNewYear: boolean;
+  candidates: number[];
+}
+
+// An extracted shift with a field that couldn't be read or repaired. Fields
+// that couldn't be read are left empty for the user to fill in.
+export interface ShiftNeedingAttention {
+  shift: Shift;
+  problem: string;
+}
+
+export interface ExtractionResult {
+  shifts: Shift[];
+  yearInference: YearInference;
+  needsAttention?: ShiftNeedingAttention[];
+}
+
+export type CalendarWriteAction =
+  | "insert"
+  | "patch"
+  | "delete"
+  // Resolutions of conflicts with the shift; see ShiftConflict.
+  | "deleteConflict"
+  | "declineConflict";
+
+// One calendar change for one shift, with the outcome of the last attempt.
+export interface CalendarWrite {
+  id: string;
+  action: CalendarWriteAction;
+  shift: Shift;
+  // The event to patch or delete; for inserts, the event that was created.
+  eventId?: string;
+  conflict?: ShiftConflict;
+  status: "pending" | "done" | "failed";
+  error?: string;
+}
+
+// One run of adding shifts to a calendar, kept so it can be looked up and
+// undone later.
+export interface ImportRecord {
+  id: string;
+  // ISO 8601 instant of the first write.
+  importedAt: string;
+  mode: ExtractionMode;
+  calendarProviderId: CalendarProviderId;
+  calendarId: string;
+  calendarName: string;
+  // Names of the uploaded files or spreadsheet.
+  sources: string[];
+  // Small JPEG data URL of the first uploaded image, if it was an image.
+  thumbnail: string | null;
+  // Every shift extracted for Review, including ones left unselected.
+  shifts: Shift[];
+  // Events this import created. Undo deletes these and nothing else, so
+  // updated and deleted events are not restored.
+  createdEventIds: string[];
+  undoneAt?: string;
+}
+
+// How shifts turn into pay. Multipliers apply to the location's hourly rate;
+// premiums add up, so a weekend night in overtime earns all three.
+export interface PaySettings {
+  currency: string;
+  // Hourly rate per location name; other locations use defaultRate.
+  rates: Record<string, number>;
+  defaultRate: number;
+  // Minutes deducted from shifts lasting at least unpaidBreakAfterHours.
+  unpaidBreakMinutes: number;
+  unpaidBreakAfterHours: number;
+  // Paid hours beyond these count as overtime; 0 turns a threshold off.
+  dailyOvertimeHours: number;
+  weeklyOvertimeHours: number;
+  overtimeMultiplier: number;
+  // Like Date.getDay(): 0 = Sunday.
+  weekStartDay: number;
+  weekendDays: number[];
+  weekendMultiplier: number;
+  // HH:MM; a night ending at or before it starts runs past midnight.
+  nightStart: string;
+  nightEnd: string;
+  nightMultiplier: number;
+}
+
+export interface EventTemplate {
+  // Title and description may use {location}, {start}, {end}, {hours} and
+  // {dayOfWeek} placeholders.
+  title: string;
+  description: string;
+  // Google Calendar event colorId per location name.
+  colorIds: Record<string, string>;
+  // Popup reminders, in minutes before the shift. Empty uses the calendar's
+  // default reminders.
+  reminderMinutes: number[];
+}
+
+// Which spreadsheet columns hold what, by zero-based column index.
+export interface SpreadsheetColumnMapping {
+  headerRow: number;
+  dateColumn: number;
+  dayColumn: number | null;
+  // Used when the shift cell itself has no time range.
+  timeColumn: number | null;
+  // Each location column's header text is used as the shift location.
+  locationColumns: number[];
+  nameMatch: "contains" | "wholeWord";
+}
+
+export interface CalDavSettings {
+  // The user's calendar home collection, e.g. http://localhost:5232/alice/
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+export type ExtractionEngineId = "gemini" | "openai" | "offline" | "demo";
+
+// "personal" finds the user's own shifts; "roster" finds everyone's.
+export type ExtractionMode = "personal" | "roster";
+
+export interface OpenAiEngineSettings {
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export interface ExtractionEngine {
+  extract(
+    file: File,
+    // The user's name first, then their aliases; null for every employee.
+    names: string[] | null,
+    profile: LayoutProfile,
+    onProgress?: (message: string) => void,
+  ): Promise<ExtractionResult>;
+}
@@ -4,4 +4,8 @@ import tailwindcss from "@tailwindcss/vite";
 
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  server: {
+    // The extraction server, started with `npm run dev:server`.
+    proxy: { "/api": "http://localhost:3001" },
+  },
 });
@@ -0,0 +1,13 @@
+import { defineConfig } from "vite";
+
+// Bundles the extraction server, dependencies included, into one file.
+export default defineConfig({
+  build: {
+    ssr: "server/index.ts",
+    outDir: "server-dist",
+    target: "node20",
+  },
+  ssr: {
+    noExternal: true,
+  },
+});